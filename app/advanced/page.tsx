@@ -1,139 +1,173 @@
 "use client"
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Progress } from "@/components/ui/progress"
-import { ArrowLeft, Target, TrendingUp, Calendar, Calculator, BookOpen, Award } from "lucide-react"
+import { ArrowLeft, Target, TrendingUp, Calendar, Calculator, BookOpen, Award, FlaskConical, Dices, Scale } from "lucide-react"
 import Link from "next/link"
-
-interface Subject {
-  id: string
-  code: string
-  creditPoints: string
-  mark: string
-}
-
-interface Semester {
-  id: string
-  name: string
-  subjects: Subject[]
-  createdAt: Date
-  order: number
-  isEditingName: boolean
-}
+import {
+  calculateAdvancedStandingCredits,
+  calculateCreditsCompleted,
+  calculateWAM,
+  getGradeDistribution as getSubjectGradeDistribution,
+  getPlannedSubjects,
+  parseCreditPoints,
+  parseMark,
+  type Semester,
+} from "@/lib/academic-engine"
+import { ATTEMPT_POLICIES, findRepeatedSubjects, getCountedSubjects } from "@/lib/attempt-policy"
+import { calculateClassification } from "@/lib/classification"
+import { checkLevelMinimums, getLevelSummaries } from "@/lib/level-analytics"
+import { formatLevel } from "@/lib/subject-codes"
+import { checkPrerequisites, describePrerequisiteIssue } from "@/lib/prerequisites"
+import { solveTargetWAM, type TargetWAMSolution } from "@/lib/target-wam"
+import { getProgressSeries } from "@/lib/progress-series"
+import { DegreeRequirementsPanel } from "@/components/degree-requirements-panel"
+import { StudyPlanGenerator } from "@/components/study-plan-generator"
+import { ScenarioSandbox } from "@/components/scenario-sandbox"
+import { WAMForecast } from "@/components/wam-forecast"
+import { ProgressCharts } from "@/components/progress-charts"
+import { SubjectImpactTable } from "@/components/subject-impact-table"
+import { getScenarioStorageKey } from "@/lib/scenarios"
+import { getGradeColorClass } from "@/lib/grade-bands"
+import { DEFAULT_GRADING_SCHEME, type GradingScheme } from "@/lib/grading-schemes"
+import { DEFAULT_SETTINGS, type AppSettings, createAppData, loadStoredAppData, saveStoredAppData } from "@/lib/persistence"
+import {
+  DEFAULT_PROFILE_ID,
+  getActiveProfile,
+  getProfileStorageKey,
+  loadProfileIndex,
+  type Profile,
+} from "@/lib/profiles"
+import { generateUniqueId } from "@/lib/utils"
 
 interface PredictionSubject {
   id: string
   code: string
   creditPoints: string
   targetMark: string
+  // Highest mark the student expects to manage; empty for no cap
+  maxMark: string
+  // Name of the semester an in-progress subject was loaded from
+  semesterName?: string
 }
 
-const DEFAULT_GRADING_SYSTEM = {
-  HD: 4,
-  D: 3.7,
-  C: 3.3,
-  P: 2,
-  TF: 0,
-  F: 0,
+// In-progress subjects from the calculator, ready for prediction
+function getPlannedPredictionSubjects(semesters: Semester[]): PredictionSubject[] {
+  return [...semesters]
+    .sort((a, b) => a.order - b.order)
+    .flatMap((semester) =>
+      getPlannedSubjects(semester.subjects).map((subject) => ({
+        id: subject.id,
+        code: subject.code,
+        creditPoints: subject.creditPoints,
+        targetMark: "",
+        maxMark: "",
+        semesterName: semester.name,
+      })),
+    )
 }
 
 export default function AdvancedFeatures() {
   const [semesters, setSemesters] = useState<Semester[]>([])
-  const [gradingSystem, setGradingSystem] = useState(DEFAULT_GRADING_SYSTEM)
+  const [gradingScheme, setGradingScheme] = useState<GradingScheme>(DEFAULT_GRADING_SCHEME)
   const [theme, setTheme] = useState("light")
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [activeProfile, setActiveProfile] = useState<Profile | null>(null)
 
   // Grade Prediction State
   const [targetWAM, setTargetWAM] = useState("")
   const [predictionSubjects, setPredictionSubjects] = useState<PredictionSubject[]>([])
   const [predictionResult, setPredictionResult] = useState<string | null>(null)
+  const [predictionSolution, setPredictionSolution] = useState<TargetWAMSolution | null>(null)
 
   // Course Planning State
   const [totalCreditsRequired, setTotalCreditsRequired] = useState("144")
   const [targetGraduationSemester, setTargetGraduationSemester] = useState("")
+  // Settings edited on the calculator page, kept so saving here does not drop them
+  const [storedSettings, setStoredSettings] = useState<AppSettings>(DEFAULT_SETTINGS)
 
   const isDark = theme === "dark"
 
   // Load data from localStorage
   useEffect(() => {
-    const savedData = localStorage.getItem("wam-calculator-data")
     const savedTheme = localStorage.getItem("wam-calculator-theme")
-    const savedGradingSystem = localStorage.getItem("wam-calculator-grading-system")
-
-    if (savedData) {
-      try {
-        const parsedData = JSON.parse(savedData)
-        setSemesters(
-          parsedData.map((semester: any) => ({
-            ...semester,
-            createdAt: new Date(semester.createdAt),
-            isEditingName: false,
-          })),
-        )
-      } catch (e) {
-        console.error("Failed to load saved data:", e)
-      }
+
+    try {
+      const index = loadProfileIndex(localStorage)
+      const { data } = loadStoredAppData(localStorage, getProfileStorageKey(index.activeProfileId))
+      setActiveProfile(getActiveProfile(index))
+      setSemesters(data.semesters)
+      setPredictionSubjects(getPlannedPredictionSubjects(data.semesters))
+      setGradingScheme(data.gradingScheme)
+      setTotalCreditsRequired(data.settings.totalCreditsRequired.toString())
+      setTargetGraduationSemester(data.settings.targetGraduationSemester)
+      setStoredSettings(data.settings)
+      setIsLoaded(true)
+    } catch (e) {
+      console.error("Failed to load saved data:", e)
     }
 
     if (savedTheme) {
       setTheme(savedTheme)
     }
+  }, [])
 
-    if (savedGradingSystem) {
-      try {
-        setGradingSystem(JSON.parse(savedGradingSystem))
-      } catch (e) {
-        console.error("Failed to load saved grading system:", e)
-      }
+  // Persist graduation settings alongside the semesters they apply to
+  useEffect(() => {
+    if (!isLoaded) return
+    const settings = {
+      ...storedSettings,
+      totalCreditsRequired: Number.parseInt(totalCreditsRequired) || DEFAULT_SETTINGS.totalCreditsRequired,
+      targetGraduationSemester,
     }
-  }, [])
+    saveStoredAppData(
+      localStorage,
+      createAppData(semesters, gradingScheme, settings),
+      getProfileStorageKey(activeProfile?.id ?? DEFAULT_PROFILE_ID),
+    )
+  }, [isLoaded, activeProfile, semesters, gradingScheme, totalCreditsRequired, targetGraduationSemester, storedSettings])
+
+  const gradeBands = gradingScheme.bands
 
   // Calculate current statistics
-  const calculateCurrentWAM = useCallback(() => {
-    let totalCreditPoints = 0
-    let totalWeightedMarks = 0
-
-    semesters.forEach((semester) => {
-      semester.subjects.forEach((subject) => {
-        const creditPoints = Number.parseFloat(subject.creditPoints)
-        const mark = Number.parseFloat(subject.mark)
-
-        if (!isNaN(creditPoints) && !isNaN(mark)) {
-          totalCreditPoints += creditPoints
-          totalWeightedMarks += creditPoints * mark
-        }
-      })
-    })
+  // Subjects counted towards cumulative figures under the student's repeat-attempt policy
+  const attemptPolicy = storedSettings.attemptPolicy
+  const countedSubjects = useMemo(() => getCountedSubjects(semesters, attemptPolicy), [semesters, attemptPolicy])
+  const classification = calculateClassification(countedSubjects, storedSettings.classification)
+  const levelSummaries = getLevelSummaries(countedSubjects, gradingScheme.bands)
+  const levelMinimumChecks = checkLevelMinimums(countedSubjects, gradingScheme.bands, storedSettings.levelMinimumCredits)
+  const prerequisiteIssues = checkPrerequisites(semesters, gradingScheme.bands)
+
+  const updateLevelMinimum = (level: number, value: string) => {
+    setStoredSettings((prev) => ({
+      ...prev,
+      levelMinimumCredits: { ...prev.levelMinimumCredits, [level]: Number.parseInt(value) || 0 },
+    }))
+  }
+  const repeatedSubjectCount = findRepeatedSubjects(semesters).size
+  const creditsPerSemester = storedSettings.creditsPerSemester
 
-    return totalCreditPoints > 0 ? totalWeightedMarks / totalCreditPoints : 0
-  }, [semesters])
-
-  const getCurrentCredits = useCallback(() => {
-    let totalCredits = 0
-    semesters.forEach((semester) => {
-      semester.subjects.forEach((subject) => {
-        const creditPoints = Number.parseFloat(subject.creditPoints)
-        const mark = Number.parseFloat(subject.mark)
-        if (!isNaN(creditPoints) && !isNaN(mark) && mark >= 50) {
-          totalCredits += creditPoints
-        }
-      })
-    })
-    return totalCredits
-  }, [semesters])
+  const calculateCurrentWAM = useCallback(() => calculateWAM(countedSubjects), [countedSubjects])
+
+  const getCurrentCredits = useCallback(
+    () => calculateCreditsCompleted(countedSubjects, gradeBands),
+    [countedSubjects, gradeBands],
+  )
 
   // Grade Prediction Logic
   const addPredictionSubject = () => {
     setPredictionSubjects((prev) => [
       ...prev,
       {
-        id: Math.random().toString(36).substring(2, 15),
+        id: generateUniqueId(),
         code: "",
         creditPoints: "",
         targetMark: "",
+        maxMark: "",
       },
     ])
   }
@@ -148,102 +182,60 @@ export default function AdvancedFeatures() {
     setPredictionSubjects((prev) => prev.filter((subject) => subject.id !== id))
   }
 
+  // Add back any in-progress subjects that were removed from the list
+  const loadPlannedSubjects = () => {
+    setPredictionSubjects((prev) => {
+      const existingIds = new Set(prev.map((subject) => subject.id))
+      return [...prev, ...getPlannedPredictionSubjects(semesters).filter((subject) => !existingIds.has(subject.id))]
+    })
+  }
+
+  const plannedSubjectCount = getPlannedPredictionSubjects(semesters).length
+
   const calculateRequiredMarks = () => {
-    const currentWAM = calculateCurrentWAM()
-    const currentCredits = getCurrentCredits()
     const target = Number.parseFloat(targetWAM)
+    setPredictionSolution(null)
 
     if (isNaN(target) || predictionSubjects.length === 0) {
       setPredictionResult("Please enter a target WAM and add subjects.")
       return
     }
 
-    let totalNewCredits = 0
-    const totalCurrentWeightedMarks = currentWAM * currentCredits
-
-    predictionSubjects.forEach((subject) => {
-      const credits = Number.parseFloat(subject.creditPoints)
-      if (!isNaN(credits)) {
-        totalNewCredits += credits
-      }
-    })
+    const upcoming = predictionSubjects.map((subject) => ({
+      id: subject.id,
+      creditPoints: parseCreditPoints(subject.creditPoints) ?? 0,
+      fixedMark: parseMark(subject.targetMark),
+      maxMark: parseMark(subject.maxMark) ?? 100,
+    }))
 
-    if (totalNewCredits === 0) {
+    if (upcoming.some((subject) => subject.creditPoints === 0)) {
       setPredictionResult("Please enter valid credit points for your subjects.")
       return
     }
 
-    const totalCreditsAfter = currentCredits + totalNewCredits
-    const requiredTotalWeightedMarks = target * totalCreditsAfter
-    const requiredNewWeightedMarks = requiredTotalWeightedMarks - totalCurrentWeightedMarks
-    const averageRequiredMark = requiredNewWeightedMarks / totalNewCredits
-
-    if (averageRequiredMark > 100) {
-      setPredictionResult(
-        `Target WAM of ${target} is not achievable. You would need an average of ${averageRequiredMark.toFixed(2)}% across all new subjects.`,
-      )
-    } else if (averageRequiredMark < 0) {
-      setPredictionResult(
-        `Great news! Your current WAM is already above your target. You can score as low as ${Math.max(0, averageRequiredMark).toFixed(2)}% average and still meet your goal.`,
-      )
-    } else {
-      setPredictionResult(
-        `To achieve a WAM of ${target}, you need an average of ${averageRequiredMark.toFixed(2)}% across your ${predictionSubjects.length} upcoming subjects (${totalNewCredits} credits total).`,
-      )
-    }
+    const solution = solveTargetWAM(countedSubjects, upcoming, target)
+    setPredictionResult(solution.explanation)
+    setPredictionSolution(solution)
   }
 
   // Progress Tracking
-  const getGradeDistribution = () => {
-    const distribution = { HD: 0, D: 0, C: 0, P: 0, TF: 0, F: 0 }
-    let total = 0
-
-    semesters.forEach((semester) => {
-      semester.subjects.forEach((subject) => {
-        const mark = Number.parseFloat(subject.mark)
-        if (!isNaN(mark) && subject.code.trim()) {
-          total++
-          if (mark >= 85) distribution.HD++
-          else if (mark >= 75) distribution.D++
-          else if (mark >= 65) distribution.C++
-          else if (mark >= 50) distribution.P++
-          else if (mark === 49) distribution.TF++
-          else distribution.F++
-        }
-      })
-    })
-
-    return { distribution, total }
-  }
+  const getGradeDistribution = () => getSubjectGradeDistribution(countedSubjects, gradeBands)
 
-  const getSemesterTrend = () => {
-    return semesters.map((semester) => {
-      let totalCreditPoints = 0
-      let totalWeightedMarks = 0
-
-      semester.subjects.forEach((subject) => {
-        const creditPoints = Number.parseFloat(subject.creditPoints)
-        const mark = Number.parseFloat(subject.mark)
-
-        if (!isNaN(creditPoints) && !isNaN(mark)) {
-          totalCreditPoints += creditPoints
-          totalWeightedMarks += creditPoints * mark
-        }
-      })
-
-      return {
-        name: semester.name,
-        wam: totalCreditPoints > 0 ? totalWeightedMarks / totalCreditPoints : 0,
-      }
-    })
-  }
+  const progressSeries = useMemo(
+    () => getProgressSeries(semesters, gradeBands, attemptPolicy),
+    [semesters, gradeBands, attemptPolicy],
+  )
 
   const currentWAM = calculateCurrentWAM()
   const currentCredits = getCurrentCredits()
-  const totalRequired = Number.parseInt(totalCreditsRequired) || 144
+  const advancedStandingCredits = calculateAdvancedStandingCredits(countedSubjects)
+  const totalRequired = Number.parseInt(totalCreditsRequired) || DEFAULT_SETTINGS.totalCreditsRequired
   const progressPercentage = (currentCredits / totalRequired) * 100
+  const scenarioSettings = useMemo(
+    () => ({ ...storedSettings, totalCreditsRequired: totalRequired }),
+    [storedSettings, totalRequired],
+  )
   const { distribution, total } = getGradeDistribution()
-  const semesterTrend = getSemesterTrend()
 
   return (
     <div
@@ -276,7 +268,14 @@ export default function AdvancedFeatures() {
                 </CardTitle>
                 <p className={`${isDark ? "text-slate-300" : "text-gray-600"} mt-2`}>
                   Grade prediction, progress tracking, and course planning tools
+                  {activeProfile && ` for ${activeProfile.name}`}
                 </p>
+                {repeatedSubjectCount > 0 && (
+                  <p className={`text-sm mt-1 ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+                    {repeatedSubjectCount} repeated subject{repeatedSubjectCount !== 1 ? "s" : ""}:{" "}
+                    {ATTEMPT_POLICIES.find((policy) => policy.id === attemptPolicy)?.label.toLowerCase()}
+                  </p>
+                )}
               </div>
             </div>
           </CardHeader>
@@ -311,11 +310,14 @@ export default function AdvancedFeatures() {
           >
             <CardContent className="p-6 text-center">
               <div
-                className={`text-3xl font-bold ${currentWAM >= 75 ? (isDark ? "text-emerald-400" : "text-emerald-600") : isDark ? "text-orange-400" : "text-orange-600"} mb-2`}
+                className={`text-3xl font-bold ${classification.band ? (isDark ? "text-emerald-400" : "text-emerald-600") : isDark ? "text-orange-400" : "text-orange-600"} mb-2`}
               >
-                {currentWAM >= 75 ? "Yes" : "No"}
+                {classification.band?.name ?? "None yet"}
               </div>
-              <p className={`${isDark ? "text-slate-300" : "text-gray-600"}`}>Distinction Eligible</p>
+              <p className={`${isDark ? "text-slate-300" : "text-gray-600"}`}>
+                {storedSettings.classification.name}
+                {classification.wam !== null && ` (WAM ${classification.wam.toFixed(2)})`}
+              </p>
             </CardContent>
           </Card>
         </div>
@@ -323,7 +325,7 @@ export default function AdvancedFeatures() {
         {/* Main Tabs */}
         <Tabs defaultValue="prediction" className="space-y-6">
           <TabsList
-            className={`grid w-full grid-cols-3 ${isDark ? "bg-slate-800 border-slate-700" : "bg-white border-gray-200"}`}
+            className={`grid w-full grid-cols-4 ${isDark ? "bg-slate-800 border-slate-700" : "bg-white border-gray-200"}`}
           >
             <TabsTrigger
               value="prediction"
@@ -346,6 +348,13 @@ export default function AdvancedFeatures() {
               <Calendar className="w-4 h-4 mr-2" />
               Course Planning
             </TabsTrigger>
+            <TabsTrigger
+              value="scenarios"
+              className={`${isDark ? "data-[state=active]:bg-slate-700" : "data-[state=active]:bg-blue-50"}`}
+            >
+              <FlaskConical className="w-4 h-4 mr-2" />
+              What-If
+            </TabsTrigger>
           </TabsList>
 
           {/* Grade Prediction Tab */}
@@ -379,13 +388,22 @@ export default function AdvancedFeatures() {
                       className={`${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
                     />
                   </div>
-                  <div className="flex items-end">
+                  <div className="flex items-end gap-2">
                     <Button
                       onClick={addPredictionSubject}
                       className={`${isDark ? "bg-cyan-600 hover:bg-cyan-700" : "bg-blue-600 hover:bg-blue-700"} text-white`}
                     >
                       Add Subject
                     </Button>
+                    {plannedSubjectCount > 0 && (
+                      <Button
+                        variant="outline"
+                        onClick={loadPlannedSubjects}
+                        className={`${isDark ? "border-slate-600 text-slate-300 hover:bg-slate-700" : "border-gray-300 text-gray-700 hover:bg-gray-50"}`}
+                      >
+                        Load In-Progress Subjects ({plannedSubjectCount})
+                      </Button>
+                    )}
                   </div>
                 </div>
 
@@ -395,13 +413,20 @@ export default function AdvancedFeatures() {
                       Upcoming Subjects
                     </h3>
                     {predictionSubjects.map((subject) => (
-                      <div key={subject.id} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
-                        <Input
-                          placeholder="Subject Code"
-                          value={subject.code}
-                          onChange={(e) => updatePredictionSubject(subject.id, "code", e.target.value)}
-                          className={`${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
-                        />
+                      <div key={subject.id} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+                        <div>
+                          {subject.semesterName && (
+                            <p className={`text-xs mb-1 ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+                              In progress · {subject.semesterName}
+                            </p>
+                          )}
+                          <Input
+                            placeholder="Subject Code"
+                            value={subject.code}
+                            onChange={(e) => updatePredictionSubject(subject.id, "code", e.target.value)}
+                            className={`${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
+                          />
+                        </div>
                         <Input
                           type="number"
                           placeholder="Credit Points"
@@ -420,6 +445,30 @@ export default function AdvancedFeatures() {
                           max="100"
                           className={`${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
                         />
+                        <Input
+                          type="number"
+                          placeholder="Highest Mark (optional)"
+                          value={subject.maxMark}
+                          onChange={(e) => updatePredictionSubject(subject.id, "maxMark", e.target.value)}
+                          min="0"
+                          max="100"
+                          disabled={subject.targetMark !== ""}
+                          className={`${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
+                        />
+                        <div className={`h-10 flex items-center text-sm ${isDark ? "text-slate-300" : "text-gray-700"}`}>
+                          {predictionSolution?.requiredMarks[subject.id] !== undefined ? (
+                            <span>
+                              Need{" "}
+                              <strong className={isDark ? "text-cyan-300" : "text-blue-600"}>
+                                {predictionSolution.requiredMarks[subject.id].toFixed(2)}
+                              </strong>
+                            </span>
+                          ) : subject.targetMark !== "" ? (
+                            <span className={isDark ? "text-slate-400" : "text-gray-500"}>Fixed</span>
+                          ) : (
+                            "—"
+                          )}
+                        </div>
                         <Button variant="destructive" size="sm" onClick={() => removePredictionSubject(subject.id)}>
                           Remove
                         </Button>
@@ -439,14 +488,61 @@ export default function AdvancedFeatures() {
                 </div>
 
                 {predictionResult && (
-                  <Alert className={`${isDark ? "bg-slate-700/50 border-slate-600" : "bg-blue-50 border-blue-200"}`}>
-                    <AlertDescription className={`${isDark ? "text-slate-200" : "text-blue-800"}`}>
+                  <Alert
+                    className={
+                      predictionSolution?.status === "infeasible"
+                        ? isDark
+                          ? "bg-slate-700/50 border-orange-500/50"
+                          : "bg-orange-50 border-orange-200"
+                        : isDark
+                          ? "bg-slate-700/50 border-slate-600"
+                          : "bg-blue-50 border-blue-200"
+                    }
+                  >
+                    <AlertDescription
+                      className={
+                        predictionSolution?.status === "infeasible"
+                          ? isDark
+                            ? "text-orange-200"
+                            : "text-orange-800"
+                          : isDark
+                            ? "text-slate-200"
+                            : "text-blue-800"
+                      }
+                    >
                       {predictionResult}
+                      {predictionSolution && (
+                        <div className="mt-1 text-sm opacity-80">
+                          Highest reachable WAM: {predictionSolution.maxAchievableWAM.toFixed(2)}
+                        </div>
+                      )}
                     </AlertDescription>
                   </Alert>
                 )}
               </CardContent>
             </Card>
+
+            <Card
+              className={`mt-6 ${isDark ? "bg-slate-800/40 border-slate-700" : "bg-white/90 border-gray-200"} backdrop-blur-sm`}
+            >
+              <CardHeader>
+                <CardTitle className={`${isDark ? "text-slate-100" : "text-gray-800"} flex items-center gap-2`}>
+                  <Dices className="w-5 h-5" />
+                  Outcome Forecast
+                </CardTitle>
+                <p className={`${isDark ? "text-slate-300" : "text-gray-600"}`}>
+                  Simulate a range of marks for your upcoming subjects to see where your WAM is likely to land
+                </p>
+              </CardHeader>
+              <CardContent>
+                <WAMForecast
+                  subjects={predictionSubjects}
+                  history={countedSubjects}
+                  scheme={storedSettings.classification}
+                  isDark={isDark}
+                />
+              </CardContent>
+            </Card>
           </TabsContent>
 
           {/* Progress Tracking Tab */}
@@ -466,28 +562,10 @@ export default function AdvancedFeatures() {
                   <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
                     {Object.entries(distribution).map(([grade, count]) => {
                       const percentage = total > 0 ? (count / total) * 100 : 0
-                      const getGradeColor = (grade: string) => {
-                        switch (grade) {
-                          case "HD":
-                            return isDark ? "text-emerald-400" : "text-emerald-600"
-                          case "D":
-                            return isDark ? "text-lime-400" : "text-lime-600"
-                          case "C":
-                            return isDark ? "text-blue-400" : "text-blue-600"
-                          case "P":
-                            return isDark ? "text-indigo-400" : "text-indigo-600"
-                          case "TF":
-                            return isDark ? "text-orange-400" : "text-orange-600"
-                          case "F":
-                            return isDark ? "text-red-400" : "text-red-600"
-                          default:
-                            return isDark ? "text-slate-400" : "text-gray-600"
-                        }
-                      }
 
                       return (
                         <div key={grade} className="text-center">
-                          <div className={`text-2xl font-bold ${getGradeColor(grade)}`}>{count}</div>
+                          <div className={`text-2xl font-bold ${getGradeColorClass(grade, gradeBands)}`}>{count}</div>
                           <div className={`text-sm ${isDark ? "text-slate-300" : "text-gray-600"}`}>{grade}</div>
                           <div className={`text-xs ${isDark ? "text-slate-400" : "text-gray-500"}`}>
                             {percentage.toFixed(1)}%
@@ -499,34 +577,29 @@ export default function AdvancedFeatures() {
                 </CardContent>
               </Card>
 
-              {/* Semester Trend */}
+              {/* Semester Charts */}
+              <ProgressCharts
+                series={progressSeries}
+                gradeBands={gradeBands}
+                showsGPA={gradingScheme.gpaScale !== null}
+                isDark={isDark}
+              />
+
+              {/* Subject Impact */}
               <Card
                 className={`${isDark ? "bg-slate-800/40 border-slate-700" : "bg-white/90 border-gray-200"} backdrop-blur-sm`}
               >
                 <CardHeader>
                   <CardTitle className={`${isDark ? "text-slate-100" : "text-gray-800"} flex items-center gap-2`}>
-                    <TrendingUp className="w-5 h-5" />
-                    Semester Performance Trend
+                    <Scale className="w-5 h-5" />
+                    Subject Impact
                   </CardTitle>
+                  <p className={`${isDark ? "text-slate-300" : "text-gray-600"}`}>
+                    How much each subject moves your WAM, and which improvements would gain the most
+                  </p>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    {semesterTrend.map((semester, index) => (
-                      <div key={index} className="flex items-center justify-between">
-                        <div className={`font-medium ${isDark ? "text-slate-200" : "text-gray-800"}`}>
-                          {semester.name}
-                        </div>
-                        <div className="flex items-center gap-4">
-                          <div
-                            className={`text-lg font-bold ${semester.wam >= 75 ? (isDark ? "text-emerald-400" : "text-emerald-600") : isDark ? "text-slate-300" : "text-gray-700"}`}
-                          >
-                            {semester.wam.toFixed(2)}
-                          </div>
-                          <Progress value={Math.min(semester.wam, 100)} className="w-32" />
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+                  <SubjectImpactTable subjects={countedSubjects} gradeBands={gradeBands} isDark={isDark} />
                 </CardContent>
               </Card>
             </div>
@@ -547,7 +620,7 @@ export default function AdvancedFeatures() {
                 </p>
               </CardHeader>
               <CardContent className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   <div>
                     <label className={`block text-sm font-medium ${isDark ? "text-slate-200" : "text-gray-700"} mb-2`}>
                       Total Credits Required for Graduation
@@ -572,6 +645,23 @@ export default function AdvancedFeatures() {
                       className={`${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
                     />
                   </div>
+                  <div>
+                    <label className={`block text-sm font-medium ${isDark ? "text-slate-200" : "text-gray-700"} mb-2`}>
+                      Credits per Semester
+                    </label>
+                    <Input
+                      type="number"
+                      value={creditsPerSemester}
+                      onChange={(e) =>
+                        setStoredSettings((prev) => ({
+                          ...prev,
+                          creditsPerSemester: Number.parseInt(e.target.value) || DEFAULT_SETTINGS.creditsPerSemester,
+                        }))
+                      }
+                      min="1"
+                      className={`${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
+                    />
+                  </div>
                 </div>
 
                 {/* Progress Overview */}
@@ -590,6 +680,8 @@ export default function AdvancedFeatures() {
                     <Progress value={progressPercentage} className="w-full" />
                     <div className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
                       {progressPercentage.toFixed(1)}% Complete
+                      {advancedStandingCredits > 0 &&
+                        ` · includes ${advancedStandingCredits} credits of advanced standing (not counted in WAM)`}
                     </div>
                   </div>
 
@@ -603,36 +695,169 @@ export default function AdvancedFeatures() {
 
                     <div className={`p-4 rounded-lg ${isDark ? "bg-slate-700/50" : "bg-green-50"}`}>
                       <div className={`text-2xl font-bold ${isDark ? "text-emerald-300" : "text-green-600"}`}>
-                        {Math.ceil((totalRequired - currentCredits) / 24)}
+                        {Math.ceil((totalRequired - currentCredits) / creditsPerSemester)}
                       </div>
                       <div className={`text-sm ${isDark ? "text-slate-300" : "text-gray-600"}`}>
-                        Semesters Left (24 credits/sem)
+                        Semesters Left ({creditsPerSemester} credits/sem)
                       </div>
                     </div>
 
                     <div className={`p-4 rounded-lg ${isDark ? "bg-slate-700/50" : "bg-purple-50"}`}>
                       <div
-                        className={`text-2xl font-bold ${currentWAM >= 75 ? (isDark ? "text-emerald-300" : "text-green-600") : isDark ? "text-orange-300" : "text-orange-600"}`}
+                        className={`text-2xl font-bold ${classification.band ? (isDark ? "text-emerald-300" : "text-green-600") : isDark ? "text-orange-300" : "text-orange-600"}`}
                       >
-                        {currentWAM >= 75 ? "On Track" : "Needs Work"}
+                        {classification.band ? "On Track" : "Needs Work"}
+                      </div>
+                      <div className={`text-sm ${isDark ? "text-slate-300" : "text-gray-600"}`}>
+                        {classification.nextBand && classification.gapToNextBand !== null
+                          ? `${classification.gapToNextBand.toFixed(2)} below ${classification.nextBand.name}`
+                          : "Classification Status"}
                       </div>
-                      <div className={`text-sm ${isDark ? "text-slate-300" : "text-gray-600"}`}>Distinction Status</div>
                     </div>
                   </div>
                 </div>
 
+                <DegreeRequirementsPanel
+                  degree={storedSettings.degree}
+                  onChange={(degree) => setStoredSettings((prev) => ({ ...prev, degree }))}
+                  subjects={countedSubjects}
+                  gradeBands={gradingScheme.bands}
+                  levelMinimumCredits={storedSettings.levelMinimumCredits}
+                  isDark={isDark}
+                />
+
+                <StudyPlanGenerator
+                  semesters={semesters}
+                  gradeBands={gradingScheme.bands}
+                  totalCreditsRequired={totalRequired}
+                  creditsPerSemester={creditsPerSemester}
+                  degree={storedSettings.degree}
+                  onAccept={(drafts) => setSemesters((prev) => [...prev, ...drafts])}
+                  isDark={isDark}
+                />
+
+                {/* Prerequisite Checks */}
+                <div className="space-y-3">
+                  <h3 className={`text-lg font-semibold ${isDark ? "text-slate-200" : "text-gray-800"}`}>
+                    Prerequisite Checks
+                  </h3>
+                  {prerequisiteIssues.length === 0 ? (
+                    <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+                      Every subject with catalogue prerequisites follows them in an earlier semester.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {prerequisiteIssues.map((issue) => (
+                        <div
+                          key={`${issue.subjectId}:${issue.prerequisite}`}
+                          className={`flex items-start gap-2 p-3 rounded-lg text-sm ${isDark ? "bg-slate-700/50" : "bg-orange-50"}`}
+                        >
+                          <span className={`font-medium ${isDark ? "text-orange-300" : "text-orange-700"}`}>
+                            {semesters.find((semester) => semester.id === issue.semesterId)?.name}
+                          </span>
+                          <span className={`${isDark ? "text-slate-300" : "text-gray-700"}`}>
+                            {describePrerequisiteIssue(issue)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Credits by Level */}
+                <div className="space-y-3">
+                  <h3 className={`text-lg font-semibold ${isDark ? "text-slate-200" : "text-gray-800"}`}>
+                    Credits by Level
+                  </h3>
+                  <div
+                    className={`grid grid-cols-5 gap-2 text-xs font-semibold ${isDark ? "text-slate-300" : "text-gray-600"}`}
+                  >
+                    <span>Level</span>
+                    <span>Credits</span>
+                    <span>WAM</span>
+                    <span>Minimum</span>
+                    <span>Status</span>
+                  </div>
+                  {[1, 2, 3, 4].map((level) => {
+                    const summary = levelSummaries.find((entry) => entry.level === level)
+                    const check = levelMinimumChecks.find((entry) => entry.level === level)
+                    return (
+                      <div key={level} className="grid grid-cols-5 gap-2 items-center text-sm">
+                        <span className={`${isDark ? "text-slate-200" : "text-gray-800"}`}>{formatLevel(level)}</span>
+                        <span className={`${isDark ? "text-slate-300" : "text-gray-700"}`}>{summary?.credits ?? 0}</span>
+                        <span className={`${isDark ? "text-slate-300" : "text-gray-700"}`}>
+                          {summary?.wam != null ? summary.wam.toFixed(2) : "—"}
+                        </span>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={storedSettings.levelMinimumCredits[level] || ""}
+                          onChange={(e) => updateLevelMinimum(level, e.target.value)}
+                          placeholder="None"
+                          className={`h-8 ${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
+                        />
+                        <span
+                          className={
+                            !check
+                              ? isDark
+                                ? "text-slate-500"
+                                : "text-gray-400"
+                              : check.isMet
+                                ? isDark
+                                  ? "text-emerald-300"
+                                  : "text-green-600"
+                                : isDark
+                                  ? "text-orange-300"
+                                  : "text-orange-600"
+                          }
+                        >
+                          {!check ? "—" : check.isMet ? "Met" : `${check.required - check.completed} to go`}
+                        </span>
+                      </div>
+                    )
+                  })}
+                </div>
+
                 {targetGraduationSemester && (
                   <Alert className={`${isDark ? "bg-slate-700/50 border-slate-600" : "bg-blue-50 border-blue-200"}`}>
                     <AlertDescription className={`${isDark ? "text-slate-200" : "text-blue-800"}`}>
                       <strong>Planning for {targetGraduationSemester}:</strong> You need{" "}
-                      {totalRequired - currentCredits} more credits. At 24 credits per semester, you'll need
-                      approximately {Math.ceil((totalRequired - currentCredits) / 24)} more semesters.
+                      {totalRequired - currentCredits} more credits. At {creditsPerSemester} credits per semester, you'll need
+                      approximately {Math.ceil((totalRequired - currentCredits) / creditsPerSemester)} more semesters.
                     </AlertDescription>
                   </Alert>
                 )}
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* What-If Scenarios Tab */}
+          <TabsContent value="scenarios">
+            <Card
+              className={`${isDark ? "bg-slate-800/40 border-slate-700" : "bg-white/90 border-gray-200"} backdrop-blur-sm`}
+            >
+              <CardHeader>
+                <CardTitle className={`${isDark ? "text-slate-100" : "text-gray-800"} flex items-center gap-2`}>
+                  <FlaskConical className="w-5 h-5" />
+                  What-If Scenarios
+                </CardTitle>
+                <p className={`${isDark ? "text-slate-300" : "text-gray-600"}`}>
+                  Try out hypothetical marks and subjects side by side with your real record
+                </p>
+              </CardHeader>
+              <CardContent>
+                {isLoaded && (
+                  <ScenarioSandbox
+                    baseline={semesters}
+                    gradeBands={gradingScheme.bands}
+                    settings={scenarioSettings}
+                    storageKey={getScenarioStorageKey(getProfileStorageKey(activeProfile?.id ?? DEFAULT_PROFILE_ID))}
+                    isDark={isDark}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -1,7 +1,7 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect, useCallback, useRef } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -11,7 +11,6 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import {
   Plus,
   Trash2,
-  Settings,
   Info,
   Download,
   Upload,
@@ -22,46 +21,113 @@ import {
   X,
   Edit,
   TrendingUp,
+  Undo2,
+  Redo2,
+  GraduationCap,
 } from "lucide-react"
 import Link from "next/link"
 import type { HTMLButtonElement } from "react"
 import { EnrollmentImport } from "@/components/enrollment-import"
-import type { ParsedSemester } from "@/lib/enrollment-parser"
-
-// Helper function to generate a unique ID
-const generateUniqueId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15)
-
-// Default grading system values
-const DEFAULT_GRADING_SYSTEM = {
-  HD: 4,
-  D: 3.7,
-  C: 3.3,
-  P: 2,
-  TF: 0,
-  F: 0,
-}
-
-interface Subject {
-  id: string
-  code: string
-  creditPoints: string
-  mark: string
-}
-
-interface Semester {
-  id: string
-  name: string
-  subjects: Subject[]
-  createdAt: Date
-  order: number
-  isEditingName: boolean
+import { ToastAction } from "@/components/ui/toast"
+import { useToast } from "@/hooks/use-toast"
+import { useUndoableState, type SetOptions } from "@/hooks/use-undoable-state"
+import type { ImportMode } from "@/lib/enrollment-merge"
+import {
+  calculateCreditsCompleted,
+  calculateGPA,
+  calculateWAM as calculateSubjectsWAM,
+  countGradedSubjects,
+  formatScore,
+  calculateAdvancedStandingCredits,
+  getGradeFromMark,
+  isCreditOnlySubject,
+  isPlannedSubject,
+  MAX_SUBJECTS_PER_SEMESTER,
+  type Semester,
+  type Subject,
+} from "@/lib/academic-engine"
+import {
+  ATTEMPT_POLICIES,
+  findRepeatedSubjects,
+  getCountedSubjects,
+  getExcludedAttemptIds,
+  type AttemptPolicy,
+} from "@/lib/attempt-policy"
+import { calculateClassification, sortClassificationBands } from "@/lib/classification"
+import { formatBandRange, getGradeColorClass, sortGradeBands } from "@/lib/grade-bands"
+import { checkLevelMinimums, getDisciplineCredits, getLevelSummaries } from "@/lib/level-analytics"
+import type { CatalogueEntry } from "@/lib/subject-catalogue"
+import { checkPrerequisites, describePrerequisiteIssue } from "@/lib/prerequisites"
+import { getProgressSeries } from "@/lib/progress-series"
+import { getAssessmentMark, getAssessmentProgress, withProjectedMarks, type Assessment } from "@/lib/assessments"
+import {
+  DEFAULT_GRADING_SCHEME,
+  isPresetScheme,
+  restoreCustomSchemes,
+  upsertCustomScheme,
+  type GradingScheme,
+} from "@/lib/grading-schemes"
+import {
+  DEFAULT_SETTINGS,
+  createAppData,
+  formatDataIssue,
+  loadStoredAppData,
+  parseAppData,
+  saveStoredAppData,
+  serializeAppData,
+  type AppSettings,
+} from "@/lib/persistence"
+import { GradingSchemeSettings } from "@/components/grading-scheme-settings"
+import { ClassificationSettings } from "@/components/classification-settings"
+import { ProfileSwitcher } from "@/components/profile-switcher"
+import { SubjectCodeCombobox } from "@/components/subject-code-combobox"
+import { AssessmentBreakdown } from "@/components/assessment-breakdown"
+import { CumulativeProgress } from "@/components/cumulative-progress"
+import {
+  DEFAULT_PROFILE_ID,
+  createProfile,
+  deleteProfile,
+  duplicateProfile,
+  getActiveProfile,
+  getProfileStorageKey,
+  loadProfileIndex,
+  renameProfile,
+  saveProfileIndex,
+  switchProfile,
+  type ProfileIndex,
+} from "@/lib/profiles"
+import { normalizeCode } from "@/lib/subject-codes"
+import { generateUniqueId } from "@/lib/utils"
+
+// Everything undo and redo step through together, so undoing an import also
+// restores the grading scheme and settings it replaced
+interface CalculatorState {
+  semesters: Semester[]
+  gradingScheme: GradingScheme
+  settings: AppSettings
 }
 
 export default function WAMCalculator() {
-  const [semesters, setSemesters] = useState<Semester[]>([])
+  const {
+    state: calculatorState,
+    set: setCalculatorState,
+    reset: resetCalculatorState,
+    undo,
+    undoChange,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState<CalculatorState>({
+    semesters: [],
+    gradingScheme: DEFAULT_GRADING_SCHEME,
+    settings: DEFAULT_SETTINGS,
+  })
+  const { semesters, gradingScheme, settings } = calculatorState
   const [theme, setTheme] = useState("light")
-  const [gradingSystem, setGradingSystem] = useState(DEFAULT_GRADING_SYSTEM)
-  const [showSettingsModal, setShowSettingsModal] = useState(false)
+  const [customSchemes, setCustomSchemes] = useState<GradingScheme[]>([])
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [dataIssues, setDataIssues] = useState<string[]>([])
+  const [profileIndex, setProfileIndex] = useState<ProfileIndex>({ activeProfileId: DEFAULT_PROFILE_ID, profiles: [] })
   const [showInfoModal, setShowInfoModal] = useState(false)
   const [showControls, setShowControls] = useState(false)
   const [showConfirmClearModal, setShowConfirmClearModal] = useState(false)
@@ -72,55 +138,117 @@ export default function WAMCalculator() {
   const controlsRef = useRef<HTMLDivElement>(null)
   const fabRef = useRef<HTMLButtonElement>(null)
 
+  const { toast } = useToast()
+
   // Theme classes
   const isDark = theme === "dark"
 
+  // Update one part of the undoable state; returns the revision for undoChange
+  const setCalculatorField = useCallback(
+    <K extends keyof CalculatorState>(
+      field: K,
+      action: React.SetStateAction<CalculatorState[K]>,
+      options?: SetOptions,
+    ) =>
+      setCalculatorState((prev) => {
+        const next =
+          typeof action === "function"
+            ? (action as (prevValue: CalculatorState[K]) => CalculatorState[K])(prev[field])
+            : action
+        return Object.is(next, prev[field]) ? prev : { ...prev, [field]: next }
+      }, options),
+    [setCalculatorState],
+  )
+
+  const setSemesters = useCallback(
+    (action: React.SetStateAction<Semester[]>, options?: SetOptions) => setCalculatorField("semesters", action, options),
+    [setCalculatorField],
+  )
+
+  const setGradingScheme = useCallback(
+    (action: React.SetStateAction<GradingScheme>) => setCalculatorField("gradingScheme", action),
+    [setCalculatorField],
+  )
+
+  const setSettings = useCallback(
+    (action: React.SetStateAction<AppSettings>) => setCalculatorField("settings", action),
+    [setCalculatorField],
+  )
+
+  // Load one profile's semesters, grading scheme and settings into state
+  const loadProfile = useCallback((index: ProfileIndex) => {
+    let restored: CalculatorState = { semesters: [], gradingScheme: DEFAULT_GRADING_SCHEME, settings: DEFAULT_SETTINGS }
+    try {
+      const { data, issues } = loadStoredAppData(localStorage, getProfileStorageKey(index.activeProfileId))
+      restored = { semesters: data.semesters, gradingScheme: data.gradingScheme, settings: data.settings }
+      setDataIssues(issues.map(formatDataIssue))
+    } catch (e) {
+      console.error("Failed to load saved data:", e)
+    }
+
+    setProfileIndex(index)
+    resetCalculatorState(restored)
+    setCustomSchemes((prev) => upsertCustomScheme(prev, restored.gradingScheme))
+  }, [resetCalculatorState])
+
   // Load data from localStorage on mount
   useEffect(() => {
-    const savedData = localStorage.getItem("wam-calculator-data")
     const savedTheme = localStorage.getItem("wam-calculator-theme")
-    const savedGradingSystem = localStorage.getItem("wam-calculator-grading-system")
-
-    if (savedData) {
-      try {
-        const parsedData = JSON.parse(savedData)
-        setSemesters(
-          parsedData.map((semester: any) => ({
-            ...semester,
-            createdAt: new Date(semester.createdAt),
-            isEditingName: false,
-          })),
-        )
-      } catch (e) {
-        console.error("Failed to load saved data:", e)
-      }
-    }
+    const savedCustomSchemes = localStorage.getItem("wam-calculator-grading-schemes")
 
     if (savedTheme) {
       setTheme(savedTheme)
     }
 
-    if (savedGradingSystem) {
-      try {
-        setGradingSystem(JSON.parse(savedGradingSystem))
-      } catch (e) {
-        console.error("Failed to load saved grading system:", e)
-      }
-    }
-  }, [])
+    setCustomSchemes(restoreCustomSchemes(savedCustomSchemes))
+    loadProfile(loadProfileIndex(localStorage))
+    setIsLoaded(true)
+  }, [loadProfile])
 
   // Save data to localStorage whenever it changes
   useEffect(() => {
-    localStorage.setItem("wam-calculator-data", JSON.stringify(semesters))
-  }, [semesters])
+    if (!isLoaded) return
+    saveStoredAppData(
+      localStorage,
+      createAppData(semesters, gradingScheme, settings),
+      getProfileStorageKey(profileIndex.activeProfileId),
+    )
+  }, [isLoaded, profileIndex.activeProfileId, semesters, gradingScheme, settings])
+
+  useEffect(() => {
+    if (!isLoaded) return
+    saveProfileIndex(localStorage, profileIndex)
+  }, [isLoaded, profileIndex])
 
   useEffect(() => {
     localStorage.setItem("wam-calculator-theme", theme)
   }, [theme])
 
   useEffect(() => {
-    localStorage.setItem("wam-calculator-grading-system", JSON.stringify(gradingSystem))
-  }, [gradingSystem])
+    if (!isLoaded) return
+    localStorage.setItem("wam-calculator-grading-schemes", JSON.stringify(customSchemes))
+  }, [isLoaded, customSchemes])
+
+  const gradeBands = gradingScheme.bands
+  const showsGPA = gradingScheme.gpaScale !== null
+
+  // Subjects counted towards cumulative figures under the repeat-attempt policy
+  const countedSubjects = useMemo(
+    () => getCountedSubjects(semesters, settings.attemptPolicy),
+    [semesters, settings.attemptPolicy],
+  )
+  const repeatedSubjects = useMemo(() => findRepeatedSubjects(semesters), [semesters])
+  const excludedAttemptIds = useMemo(
+    () => getExcludedAttemptIds(semesters, settings.attemptPolicy),
+    [semesters, settings.attemptPolicy],
+  )
+  const prerequisiteIssues = useMemo(() => checkPrerequisites(semesters, gradeBands), [semesters, gradeBands])
+  // Cumulative WAM/CGPA as it stood after each semester
+  const progressBySemester = useMemo(
+    () =>
+      new Map(getProgressSeries(semesters, gradeBands, settings.attemptPolicy).map((point) => [point.semesterId, point])),
+    [semesters, gradeBands, settings.attemptPolicy],
+  )
 
   // Auto-dismiss error messages
   useEffect(() => {
@@ -132,96 +260,23 @@ export default function WAMCalculator() {
     }
   }, [error])
 
-  // Function to get the grade based on the mark
-  const getGradeFromMark = useCallback((mark: string) => {
-    const numericMark = Number.parseFloat(mark)
-    if (isNaN(numericMark)) return ""
-    if (numericMark >= 85) return "HD"
-    if (numericMark >= 75) return "D"
-    if (numericMark >= 65) return "C"
-    if (numericMark >= 50) return "P"
-    if (numericMark === 49) return "TF"
-    if (numericMark >= 0 && numericMark < 49) return "F"
-    return ""
-  }, [])
-
   // Calculate WAM for a given set of subjects
-  const calculateWAM = useCallback((subjects: Subject[]) => {
-    let totalCreditPoints = 0
-    let totalWeightedMarks = 0
-
-    subjects.forEach((subject) => {
-      const creditPoints = Number.parseFloat(subject.creditPoints)
-      const mark = Number.parseFloat(subject.mark)
-
-      if (!isNaN(creditPoints) && !isNaN(mark)) {
-        totalCreditPoints += creditPoints
-        totalWeightedMarks += creditPoints * mark
-      }
-    })
-
-    return totalCreditPoints > 0 ? (totalWeightedMarks / totalCreditPoints).toFixed(2) : "0.00"
-  }, [])
+  const calculateWAM = useCallback((subjects: Subject[]) => formatScore(calculateSubjectsWAM(subjects)), [])
 
   // Calculate SGPA for a given set of subjects
   const calculateSGPA = useCallback(
-    (subjects: Subject[]) => {
-      let totalCreditPoints = 0
-      let totalWeightedGradePoints = 0
-
-      subjects.forEach((subject) => {
-        const creditPoints = Number.parseFloat(subject.creditPoints)
-        const mark = Number.parseFloat(subject.mark)
-
-        if (!isNaN(creditPoints) && !isNaN(mark)) {
-          const grade = getGradeFromMark(mark)
-          const gradePoint = gradingSystem[grade as keyof typeof gradingSystem]
-
-          if (gradePoint !== undefined) {
-            totalCreditPoints += creditPoints
-            totalWeightedGradePoints += creditPoints * gradePoint
-          }
-        }
-      })
-      return totalCreditPoints > 0 ? (totalWeightedGradePoints / totalCreditPoints).toFixed(2) : "0.00"
-    },
-    [gradingSystem, getGradeFromMark],
+    (subjects: Subject[]) => (showsGPA ? formatScore(calculateGPA(subjects, gradeBands)) : "N/A"),
+    [gradeBands, showsGPA],
   )
 
   // Calculate CGPA
-  const calculateCGPA = useCallback(() => {
-    let overallTotalCreditPoints = 0
-    let overallTotalWeightedGradePoints = 0
-
-    semesters.forEach((semester) => {
-      semester.subjects.forEach((subject) => {
-        const creditPoints = Number.parseFloat(subject.creditPoints)
-        const mark = Number.parseFloat(subject.mark)
-
-        if (!isNaN(creditPoints) && mark >= 0 && mark <= 100 && subject.code.trim()) {
-          const grade = getGradeFromMark(mark)
-          const gradePoint = gradingSystem[grade as keyof typeof gradingSystem]
-
-          if (gradePoint !== undefined) {
-            overallTotalCreditPoints += creditPoints
-            overallTotalWeightedGradePoints += creditPoints * gradePoint
-          }
-        }
-      })
-    })
-    return overallTotalCreditPoints > 0
-      ? (overallTotalWeightedGradePoints / overallTotalCreditPoints).toFixed(2)
-      : "0.00"
-  }, [semesters, gradingSystem, getGradeFromMark])
+  const calculateCGPA = useCallback(
+    () => (showsGPA ? formatScore(calculateGPA(countedSubjects, gradeBands)) : "N/A"),
+    [countedSubjects, gradeBands, showsGPA],
+  )
 
   // Calculate overall WAM
-  const calculateOverallWAM = useCallback(() => {
-    let allSubjects: Subject[] = []
-    semesters.forEach((semester) => {
-      allSubjects = allSubjects.concat(semester.subjects)
-    })
-    return calculateWAM(allSubjects)
-  }, [semesters, calculateWAM])
+  const calculateOverallWAM = useCallback(() => calculateWAM(countedSubjects), [countedSubjects, calculateWAM])
 
   // Validation functions
   const validateCreditPoints = (value: string): boolean => {
@@ -249,23 +304,35 @@ export default function WAMCalculator() {
   }
 
   // Handle enrollment record import
-  const handleEnrollmentImport = (importedSemesters: ParsedSemester[]) => {
-    const convertedSemesters: Semester[] = importedSemesters.map((semester) => ({
-      id: semester.id,
-      name: semester.name,
-      subjects: semester.subjects,
-      createdAt: new Date(),
-      order: semester.order,
-      isEditingName: false,
-    }))
-    
-    setSemesters(convertedSemesters)
+  const handleEnrollmentImport = (importedSemesters: Semester[], mode: ImportMode) => {
+    const revision = setSemesters(importedSemesters)
     setError(null)
+    showUndoToast(
+      revision,
+      mode === "merge"
+        ? "Merged enrollment record"
+        : `Imported ${importedSemesters.length} semester${importedSemesters.length !== 1 ? "s" : ""}`,
+    )
+  }
+
+  // Offer a one-click undo after a destructive change. The toast undoes that
+  // change even if other edits were made while it was showing.
+  const showUndoToast = (revision: number, message: string) => {
+    toast({
+      title: message,
+      action: (
+        <ToastAction altText="Undo" onClick={() => undoChange(revision)}>
+          Undo
+        </ToastAction>
+      ),
+    })
   }
 
   // Delete a semester
   const deleteSemester = (semesterId: string) => {
-    setSemesters((prev) => prev.filter((s) => s.id !== semesterId))
+    const semester = semesters.find((s) => s.id === semesterId)
+    const revision = setSemesters((prev) => prev.filter((s) => s.id !== semesterId))
+    showUndoToast(revision, `Deleted ${semester?.name ?? "semester"}`)
   }
 
   // Add a subject to a semester
@@ -273,8 +340,8 @@ export default function WAMCalculator() {
     setSemesters((prev) =>
       prev.map((semester) => {
         if (semester.id === semesterId) {
-          if (semester.subjects.length >= 8) {
-            setError("Maximum 8 subjects per semester.")
+          if (semester.subjects.length >= MAX_SUBJECTS_PER_SEMESTER) {
+            setError(`Maximum ${MAX_SUBJECTS_PER_SEMESTER} subjects per semester.`)
             return semester
           }
           return {
@@ -339,12 +406,79 @@ export default function WAMCalculator() {
         }
         return semester
       }),
+      // Typing into one field is a single undo step
+      { coalesceKey: `${subjectId}:${field}` },
+    )
+  }
+
+  // Picking a catalogue subject fills in its default credit points
+  const selectCatalogueSubject = (semesterId: string, subjectId: string, entry: CatalogueEntry) => {
+    setSemesters((prev) =>
+      prev.map((semester) => {
+        if (semester.id !== semesterId) return semester
+        return {
+          ...semester,
+          subjects: semester.subjects.map((subject) =>
+            subject.id === subjectId
+              ? { ...subject, code: entry.code, creditPoints: String(entry.creditPoints) }
+              : subject,
+          ),
+        }
+      }),
+    )
+  }
+
+  // Assessments drive the mark once complete; a mark they filled in is cleared
+  // again if an assessment is unscored, but a hand-entered mark is kept
+  const updateSubjectAssessments = (semesterId: string, subjectId: string, assessments: Assessment[]) => {
+    setSemesters(
+      (prev) =>
+        prev.map((semester) => {
+          if (semester.id !== semesterId) return semester
+          return {
+            ...semester,
+            subjects: semester.subjects.map((subject) => {
+              if (subject.id !== subjectId) return subject
+              const previousMark = getAssessmentMark(subject.assessments ?? [])
+              const nextMark = getAssessmentMark(assessments)
+              const mark =
+                nextMark !== null
+                  ? nextMark.toString()
+                  : previousMark !== null && Number(subject.mark) === previousMark
+                    ? ""
+                    : subject.mark
+              return { ...subject, assessments, mark }
+            }),
+          }
+        }),
+      { coalesceKey: `${subjectId}:assessments` },
+    )
+  }
+
+  // Switch a subject between a graded subject and credit-only advanced standing
+  const toggleCreditOnly = (semesterId: string, subjectId: string) => {
+    setSemesters((prev) =>
+      prev.map((semester) => {
+        if (semester.id !== semesterId) return semester
+        return {
+          ...semester,
+          subjects: semester.subjects.map((subject) => {
+            if (subject.id !== subjectId) return subject
+            if (isCreditOnlySubject(subject)) {
+              const { kind, creditSource, ...gradedSubject } = subject
+              return gradedSubject
+            }
+            const { assessments, ...creditSubject } = subject
+            return { ...creditSubject, kind: "credit" as const, creditSource: "", mark: "" }
+          }),
+        }
+      }),
     )
   }
 
   // Delete a subject
   const deleteSubject = (semesterId: string, subjectId: string) => {
-    setSemesters((prev) =>
+    const revision = setSemesters((prev) =>
       prev.map((semester) => {
         if (semester.id === semesterId) {
           return {
@@ -355,28 +489,35 @@ export default function WAMCalculator() {
         return semester
       }),
     )
+    showUndoToast(revision, "Deleted subject")
   }
 
-  // Get grade color class with enhanced dark mode colors
-  const getGradeColorClass = (grade: string) => {
-    switch (grade) {
-      case "HD":
-        return "text-emerald-600 dark:text-emerald-400 font-bold"
-      case "D":
-        return "text-lime-600 dark:text-lime-400 font-bold"
-      case "C":
-        return "text-blue-600 dark:text-blue-400 font-bold"
-      case "P":
-        return "text-indigo-600 dark:text-indigo-400 font-bold"
-      case "TF":
-        return "text-orange-600 dark:text-orange-400 font-bold"
-      case "F":
-        return "text-red-600 dark:text-red-400 font-bold"
-      case "":
-        return "text-gray-400 dark:text-gray-500"
-      default:
-        return "text-gray-600 dark:text-gray-400"
-    }
+  // Profile management
+  const handleSwitchProfile = (profileId: string) => loadProfile(switchProfile(profileIndex, profileId))
+
+  const handleCreateProfile = (name: string) => loadProfile(createProfile(localStorage, profileIndex, name))
+
+  const handleRenameProfile = (profileId: string, name: string) => {
+    setProfileIndex((prev) => renameProfile(prev, profileId, name))
+  }
+
+  const handleDuplicateProfile = (profileId: string) => {
+    loadProfile(duplicateProfile(localStorage, profileIndex, profileId))
+  }
+
+  const handleDeleteProfile = (profileId: string) => {
+    loadProfile(deleteProfile(localStorage, profileIndex, profileId))
+  }
+
+  // Grading scheme management
+  const saveGradingScheme = (scheme: GradingScheme) => {
+    setCustomSchemes((prev) => upsertCustomScheme(prev, scheme))
+    setGradingScheme(scheme)
+  }
+
+  const deleteGradingScheme = (schemeId: string) => {
+    setCustomSchemes((prev) => prev.filter((scheme) => scheme.id !== schemeId))
+    if (gradingScheme.id === schemeId) setGradingScheme(DEFAULT_GRADING_SCHEME)
   }
 
   // Enhanced PDF generation function with uniform formatting
@@ -410,6 +551,28 @@ export default function WAMCalculator() {
       doc.text(`Overall WAM: ${calculateOverallWAM()}`, margin, yPos)
       yPos += 7
       doc.text(`CGPA: ${calculateCGPA()}`, margin, yPos)
+      yPos += 7
+      doc.text(`Grading scheme: ${gradingScheme.name}`, margin, yPos)
+      yPos += 7
+      doc.text(
+        `${settings.classification.name}: ${classification.band?.name ?? "No classification"}` +
+          (classification.wam !== null ? ` (classification WAM ${formatScore(classification.wam)})` : ""),
+        margin,
+        yPos,
+      )
+      const advancedStandingCredits = getAdvancedStandingCredits()
+      if (advancedStandingCredits > 0) {
+        yPos += 7
+        doc.text(
+          `Credits completed: ${getCreditsCompleted()} (including ${advancedStandingCredits} advanced standing)`,
+          margin,
+          yPos,
+        )
+      }
+      if (profileIndex.profiles.length > 1) {
+        yPos += 7
+        doc.text(`Profile: ${getActiveProfile(profileIndex).name}`, margin, yPos)
+      }
       yPos += 15 // Space before first semester
 
       // Process each semester
@@ -419,8 +582,7 @@ export default function WAMCalculator() {
             subject.code.trim() &&
             subject.creditPoints &&
             validateCreditPoints(subject.creditPoints) &&
-            subject.mark &&
-            validateMark(subject.mark),
+            (isCreditOnlySubject(subject) || (subject.mark && validateMark(subject.mark))),
         )
 
         if (validSubjects.length === 0) {
@@ -447,12 +609,16 @@ export default function WAMCalculator() {
 
         // Subjects table with centered layout and consistent formatting
         const tableColumn = ["Subject Code", "Credit Points", "Final Mark", "Grade"]
-        const tableRows = validSubjects.map((subject) => [
-          subject.code.toUpperCase(),
-          subject.creditPoints,
-          subject.mark,
-          getGradeFromMark(subject.mark),
-        ])
+        const tableRows = validSubjects.map((subject) =>
+          isCreditOnlySubject(subject)
+            ? [
+                subject.code.toUpperCase(),
+                subject.creditPoints,
+                "—",
+                subject.creditSource ? `Credit (${subject.creditSource})` : "Credit",
+              ]
+            : [subject.code.toUpperCase(), subject.creditPoints, subject.mark, getGradeFromMark(subject.mark, gradeBands)],
+        )
 
         const colWidths = {
           0: 50, // Subject Code
@@ -540,18 +706,20 @@ export default function WAMCalculator() {
       const dataToExport = semesters
         .map((semester) => ({
           ...semester,
+          // Planned and in-progress subjects have no mark yet but are still part of the record
           subjects: semester.subjects.filter(
             (subject) =>
               subject.code.trim() &&
               subject.creditPoints &&
               validateCreditPoints(subject.creditPoints) &&
-              subject.mark &&
-              validateMark(subject.mark),
+              (!subject.mark.trim() || validateMark(subject.mark)),
           ),
         }))
         .filter((semester) => semester.subjects.length > 0)
 
-      const blob = new Blob([JSON.stringify(dataToExport, null, 2)], { type: "application/json" })
+      // The grading scheme travels with the data so a recipient sees the same SGPA/CGPA
+      const exportFile = createAppData(dataToExport, gradingScheme, settings)
+      const blob = new Blob([serializeAppData(exportFile)], { type: "application/json" })
       const url = URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
@@ -573,22 +741,36 @@ export default function WAMCalculator() {
 
     const reader = new FileReader()
     reader.onload = (e) => {
+      let parsedFile: unknown
       try {
-        const importedData = JSON.parse(e.target?.result as string)
-        if (Array.isArray(importedData) && importedData.every((s) => s.name && Array.isArray(s.subjects))) {
-          setSemesters(
-            importedData.map((semester) => ({
-              ...semester,
-              createdAt: new Date(semester.createdAt),
-              isEditingName: false,
-            })),
-          )
-          setError(null)
-        } else {
-          setError("Invalid JSON format. Please upload a valid WAM calculator data file.")
-        }
+        parsedFile = JSON.parse(e.target?.result as string)
       } catch (parseError) {
         setError("Failed to import data. Invalid JSON file.")
+        if (event.target) event.target.value = ""
+        return
+      }
+
+      try {
+        // Older exports carry no grading scheme, so they keep the current one
+        const { data, issues } = parseAppData(parsedFile, gradingScheme)
+        if (!isPresetScheme(data.gradingScheme.id)) {
+          setCustomSchemes((prev) => upsertCustomScheme(prev, data.gradingScheme))
+        }
+        // One history entry, so a single undo restores the scheme, settings and semesters
+        const revision = setCalculatorState({
+          semesters: data.semesters,
+          gradingScheme: data.gradingScheme,
+          settings: data.settings,
+        })
+        setDataIssues(issues.map(formatDataIssue))
+        setError(null)
+        showUndoToast(revision, `Imported ${data.semesters.length} semester${data.semesters.length !== 1 ? "s" : ""} from file`)
+      } catch (importError) {
+        setError(
+          importError instanceof Error
+            ? importError.message
+            : "Invalid JSON format. Please upload a valid WAM calculator data file.",
+        )
       } finally {
         if (event.target) event.target.value = ""
       }
@@ -598,11 +780,34 @@ export default function WAMCalculator() {
 
   // Clear all data
   const clearAllData = () => {
-    setSemesters([])
+    const revision = setSemesters([])
     setShowConfirmClearModal(false)
-    localStorage.removeItem("wam-calculator-data")
+    setDataIssues([])
+    showUndoToast(revision, "Cleared all semesters")
   }
 
+  // Keyboard shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return
+      const target = event.target as HTMLElement | null
+      // Leave text areas and dialogs (e.g. the enrollment paste box) to the browser
+      if (target?.tagName === "TEXTAREA" || target?.closest("[role='dialog']")) return
+
+      const key = event.key.toLowerCase()
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [undo, redo])
+
   // Handle clicks outside controls
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -626,31 +831,24 @@ export default function WAMCalculator() {
   }, [showControls])
 
   const overallWAM = calculateOverallWAM()
-  const isDistinctionEligible = Number.parseFloat(overallWAM) >= 75
+  // Subjects still in progress counted at their running assessment mark
+  const hasRunningMarks = countedSubjects.some(
+    (subject) => !subject.mark.trim() && subject.assessments?.some((assessment) => assessment.score.trim()),
+  )
+  const projectedWAM = calculateWAM(withProjectedMarks(countedSubjects))
+  const classification = calculateClassification(countedSubjects, settings.classification)
+  const hasClassification = classification.band !== null
 
   // Calculate statistics
-  const getTotalSubjectsTaken = () => {
-    return semesters.reduce(
-      (count, semester) => count + semester.subjects.filter((s) => s.code.trim() && s.creditPoints && s.mark).length,
-      0,
-    )
-  }
+  const getTotalSubjectsTaken = () => countGradedSubjects(countedSubjects)
 
-  const getCreditsCompleted = () => {
-    let completedCredits = 0
-    semesters.forEach((semester) => {
-      semester.subjects.forEach((subject) => {
-        const mark = Number.parseFloat(subject.mark)
-        const creditPoints = Number.parseFloat(subject.creditPoints)
-        const grade = getGradeFromMark(subject.mark)
+  const getCreditsCompleted = () => calculateCreditsCompleted(countedSubjects, gradeBands)
 
-        if (!isNaN(creditPoints) && grade !== "TF" && grade !== "F" && subject.code.trim()) {
-          completedCredits += creditPoints
-        }
-      })
-    })
-    return completedCredits
-  }
+  const getAdvancedStandingCredits = () => calculateAdvancedStandingCredits(countedSubjects)
+
+  const levelSummaries = getLevelSummaries(countedSubjects, gradeBands)
+  const levelMinimumChecks = checkLevelMinimums(countedSubjects, gradeBands, settings.levelMinimumCredits)
+  const disciplineCredits = getDisciplineCredits(countedSubjects, gradeBands)
 
   return (
     <div
@@ -668,6 +866,29 @@ export default function WAMCalculator() {
           </Alert>
         )}
 
+        {/* Data Issues from loading or importing */}
+        {dataIssues.length > 0 && (
+          <Alert className="mb-6 border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+            <AlertDescription className="text-amber-800 dark:text-amber-200">
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <p className="font-semibold mb-1">
+                    Some saved values were invalid and have been cleared. Please re-enter them:
+                  </p>
+                  <ul className="list-disc list-inside text-sm">
+                    {dataIssues.map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setDataIssues([])}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Header Card */}
         <Card
           className={`mb-8 ${isDark ? "bg-slate-800/50 border-slate-700" : "bg-white/80 border-blue-200"} backdrop-blur-sm`}
@@ -679,6 +900,17 @@ export default function WAMCalculator() {
             <p className={`text-lg ${isDark ? "text-slate-300" : "text-gray-600"} max-w-3xl mx-auto`}>
               Track your weighted average mark (WAM), Semester GPA (SGPA), and Cumulative GPA (CGPA) across semesters.
             </p>
+            <div className="flex justify-center mt-4">
+              <ProfileSwitcher
+                index={profileIndex}
+                onSwitch={handleSwitchProfile}
+                onCreate={handleCreateProfile}
+                onRename={handleRenameProfile}
+                onDuplicate={handleDuplicateProfile}
+                onDelete={handleDeleteProfile}
+                isDark={isDark}
+              />
+            </div>
           </CardHeader>
         </Card>
 
@@ -708,6 +940,9 @@ export default function WAMCalculator() {
                     <ul
                       className={`list-disc list-inside ml-4 space-y-1 text-sm ${isDark ? "text-slate-400" : "text-gray-600"}`}
                     >
+                      <li>
+                        <strong>Undo / Redo</strong>: Step back through your edits (Ctrl+Z / Ctrl+Shift+Z)
+                      </li>
                       <li>
                         <strong>Theme Toggle</strong>: Switch between light and dark themes
                       </li>
@@ -715,7 +950,7 @@ export default function WAMCalculator() {
                         <strong>Understanding Grades</strong>: Learn about WAM, SGPA, CGPA
                       </li>
                       <li>
-                        <strong>Settings</strong>: Customize grade point values
+                        <strong>Settings</strong>: Customize grade bands, mark cutoffs and grade point values
                       </li>
                       <li>
                         <strong>Export/Import</strong>: Save or load your data as JSON
@@ -761,18 +996,25 @@ export default function WAMCalculator() {
                 <h2 className={`text-3xl font-bold ${isDark ? "text-cyan-300" : "text-blue-800"} mb-2`}>
                   Overall WAM:{" "}
                   <span
-                    className={`${isDistinctionEligible ? (isDark ? "text-emerald-400" : "text-emerald-600") : ""} ${isDark ? "text-cyan-200" : "text-blue-900"}`}
+                    className={hasClassification ? (isDark ? "text-emerald-400" : "text-emerald-600") : isDark ? "text-cyan-200" : "text-blue-900"}
                   >
                     {overallWAM}
                   </span>
-                  {isDistinctionEligible && (
+                  {classification.band && (
                     <Badge
                       className={`ml-2 ${isDark ? "bg-emerald-500/20 text-emerald-400 border-emerald-500/30" : "bg-emerald-100 text-emerald-700 border-emerald-300"}`}
                     >
-                      Distinction Eligible
+                      {classification.band.name}
                     </Badge>
                   )}
                 </h2>
+                <p className={`text-sm mb-2 ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+                  {settings.classification.name}:{" "}
+                  {classification.wam === null ? "no counted subjects yet" : `classification WAM ${formatScore(classification.wam)}`}
+                  {classification.nextBand &&
+                    classification.gapToNextBand !== null &&
+                    ` · ${formatScore(classification.gapToNextBand)} below ${classification.nextBand.name}`}
+                </p>
                 <div className="flex flex-col sm:flex-row gap-4 text-lg">
                   <p className={`${isDark ? "text-slate-300" : "text-blue-700"}`}>
                     <strong>CGPA:</strong> {calculateCGPA()}
@@ -784,6 +1026,27 @@ export default function WAMCalculator() {
                     <strong>Subjects:</strong> {getTotalSubjectsTaken()}
                   </p>
                 </div>
+                <p className={`text-sm mt-1 ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+                  Grading scheme: {gradingScheme.name}
+                </p>
+                {repeatedSubjects.size > 0 && (
+                  <div className={`flex flex-wrap items-center gap-2 text-sm mt-1 ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+                    <span>
+                      Repeated subjects ({Array.from(repeatedSubjects.keys()).join(", ")}):
+                    </span>
+                    <select
+                      value={settings.attemptPolicy}
+                      onChange={(e) => setSettings((prev) => ({ ...prev, attemptPolicy: e.target.value as AttemptPolicy }))}
+                      className={`h-8 rounded-md border px-2 text-sm ${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
+                    >
+                      {ATTEMPT_POLICIES.map((policy) => (
+                        <option key={policy.id} value={policy.id} title={policy.description}>
+                          {policy.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
               </div>
               <div className="flex flex-col sm:flex-row gap-3">
                 <Button
@@ -872,6 +1135,11 @@ export default function WAMCalculator() {
                     </Button>
                   </div>
                 </div>
+                <CumulativeProgress
+                  progress={progressBySemester.get(semester.id)}
+                  showsGPA={showsGPA}
+                  isDark={isDark}
+                />
               </CardHeader>
               <CardContent className="p-6">
                 <div className="mb-4 flex justify-end">
@@ -907,7 +1175,8 @@ export default function WAMCalculator() {
                     </thead>
                     <tbody>
                       {semester.subjects.map((subject, index) => {
-                        const grade = getGradeFromMark(subject.mark)
+                        const grade = getGradeFromMark(subject.mark, gradeBands)
+                        const subjectPrerequisiteIssues = prerequisiteIssues.filter((issue) => issue.subjectId === subject.id)
                         const isValidCreditPoints = validateCreditPoints(subject.creditPoints)
                         const isValidMark = validateMark(subject.mark)
 
@@ -917,12 +1186,11 @@ export default function WAMCalculator() {
                             className={`border-b ${isDark ? "border-slate-600 hover:bg-slate-700/30" : "border-gray-200 hover:bg-gray-50"} transition-colors`}
                           >
                             <td className="p-4">
-                              <Input
+                              <SubjectCodeCombobox
                                 value={subject.code}
-                                onChange={(e) => handleSubjectChange(semester.id, subject.id, "code", e.target.value)}
-                                placeholder="e.g., ACCY101"
-                                className={`${isDark ? "bg-slate-800 border-slate-600 text-slate-100" : "bg-white border-gray-300"} focus:ring-2 ${isDark ? "focus:ring-cyan-500" : "focus:ring-blue-500"}`}
-                                maxLength={10}
+                                onChange={(code) => handleSubjectChange(semester.id, subject.id, "code", code)}
+                                onSelectEntry={(entry) => selectCatalogueSubject(semester.id, subject.id, entry)}
+                                isDark={isDark}
                               />
                             </td>
                             <td className="p-4">
@@ -943,35 +1211,126 @@ export default function WAMCalculator() {
                               />
                             </td>
                             <td className="p-4">
-                              <Input
-                                type="number"
-                                value={subject.mark}
-                                onChange={(e) => handleSubjectChange(semester.id, subject.id, "mark", e.target.value)}
-                                placeholder="e.g., 75.5"
-                                min="0"
-                                max="100"
-                                step="0.01"
-                                className={`${isDark ? "bg-slate-800 border-slate-600 text-slate-100" : "bg-white border-gray-300"} focus:ring-2 ${isDark ? "focus:ring-cyan-500" : "focus:ring-blue-500"} ${
-                                  subject.mark && !isValidMark ? "border-red-500 dark:border-red-400" : ""
-                                }`}
-                              />
+                              {isCreditOnlySubject(subject) ? (
+                                <Input
+                                  value={subject.creditSource ?? ""}
+                                  onChange={(e) =>
+                                    handleSubjectChange(semester.id, subject.id, "creditSource", e.target.value)
+                                  }
+                                  placeholder="Source institution"
+                                  maxLength={100}
+                                  className={`${isDark ? "bg-slate-800 border-slate-600 text-slate-100" : "bg-white border-gray-300"} focus:ring-2 ${isDark ? "focus:ring-cyan-500" : "focus:ring-blue-500"}`}
+                                />
+                              ) : (
+                                <Input
+                                  type="number"
+                                  value={subject.mark}
+                                  onChange={(e) => handleSubjectChange(semester.id, subject.id, "mark", e.target.value)}
+                                  placeholder="e.g., 75.5"
+                                  min="0"
+                                  max="100"
+                                  step="0.01"
+                                  className={`${isDark ? "bg-slate-800 border-slate-600 text-slate-100" : "bg-white border-gray-300"} focus:ring-2 ${isDark ? "focus:ring-cyan-500" : "focus:ring-blue-500"} ${
+                                    subject.mark && !isValidMark ? "border-red-500 dark:border-red-400" : ""
+                                  }`}
+                                />
+                              )}
                             </td>
                             <td className="p-4">
-                              <Badge
-                                className={`${getGradeColorClass(grade)} bg-transparent border-0 text-lg px-2 py-1`}
-                              >
-                                {grade || "—"}
-                              </Badge>
+                              {isCreditOnlySubject(subject) ? (
+                                <Badge
+                                  variant="outline"
+                                  className={`${isDark ? "border-cyan-500/50 text-cyan-300" : "border-blue-300 text-blue-700"} font-normal`}
+                                  title="Advanced standing: counts towards credits, not WAM or GPA"
+                                >
+                                  Credit
+                                </Badge>
+                              ) : isPlannedSubject(subject) ? (
+                                <Badge
+                                  variant="outline"
+                                  className={`${isDark ? "border-slate-500 text-slate-300" : "border-gray-300 text-gray-600"} font-normal`}
+                                  title="Not counted in WAM until a mark is entered"
+                                >
+                                  In progress
+                                  {subject.assessments?.length &&
+                                  getAssessmentProgress(subject.assessments).runningMark !== null
+                                    ? ` · ${getAssessmentProgress(subject.assessments).runningMark} so far`
+                                    : ""}
+                                </Badge>
+                              ) : (
+                                <Badge
+                                  className={`${getGradeColorClass(grade, gradeBands)} ${grade ? "font-bold" : ""} bg-transparent border-0 text-lg px-2 py-1`}
+                                >
+                                  {grade || "—"}
+                                </Badge>
+                              )}
+                              {repeatedSubjects.has(normalizeCode(subject.code)) && (
+                                <Badge
+                                  variant="outline"
+                                  className={`ml-1 font-normal ${
+                                    excludedAttemptIds.has(subject.id)
+                                      ? "line-through opacity-60"
+                                      : isDark
+                                        ? "border-amber-500/50 text-amber-300"
+                                        : "border-amber-300 text-amber-700"
+                                  }`}
+                                  title={
+                                    excludedAttemptIds.has(subject.id)
+                                      ? "Repeated subject: this attempt is not counted in overall WAM, CGPA or credits"
+                                      : "Repeated subject: this attempt is counted"
+                                  }
+                                >
+                                  Repeat
+                                </Badge>
+                              )}
+                              {subjectPrerequisiteIssues.length > 0 && (
+                                <Badge
+                                  variant="outline"
+                                  className={`ml-1 font-normal ${isDark ? "border-orange-500/50 text-orange-300" : "border-orange-300 text-orange-700"}`}
+                                  title={subjectPrerequisiteIssues.map(describePrerequisiteIssue).join("\n")}
+                                >
+                                  Prerequisite
+                                </Badge>
+                              )}
                             </td>
                             <td className="p-4">
-                              <Button
-                                variant="destructive"
-                                size="sm"
-                                onClick={() => deleteSubject(semester.id, subject.id)}
-                                className="shadow-sm"
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
+                              <div className="flex gap-2">
+                                <Button
+                                  variant={isCreditOnlySubject(subject) ? "default" : "outline"}
+                                  size="sm"
+                                  onClick={() => toggleCreditOnly(semester.id, subject.id)}
+                                  title={
+                                    isCreditOnlySubject(subject)
+                                      ? "Change back to a graded subject"
+                                      : "Mark as advanced standing (credit only)"
+                                  }
+                                  className={
+                                    isCreditOnlySubject(subject)
+                                      ? ""
+                                      : isDark
+                                        ? "border-slate-600 text-slate-300 hover:bg-slate-700"
+                                        : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                                  }
+                                >
+                                  <GraduationCap className="w-4 h-4" />
+                                </Button>
+                                {!isCreditOnlySubject(subject) && (
+                                  <AssessmentBreakdown
+                                    subject={subject}
+                                    gradeBands={gradeBands}
+                                    onChange={(assessments) => updateSubjectAssessments(semester.id, subject.id, assessments)}
+                                    isDark={isDark}
+                                  />
+                                )}
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  onClick={() => deleteSubject(semester.id, subject.id)}
+                                  className="shadow-sm"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
                             </td>
                           </tr>
                         )
@@ -1014,14 +1373,31 @@ export default function WAMCalculator() {
                     {getCreditsCompleted()}
                   </div>
                   <p className={`${isDark ? "text-slate-300" : "text-gray-600"}`}>Credits Completed</p>
+                  {getAdvancedStandingCredits() > 0 && (
+                    <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+                      incl. {getAdvancedStandingCredits()} advanced standing
+                    </p>
+                  )}
                 </div>
                 <div className="text-center">
                   <div
-                    className={`text-3xl font-bold ${isDistinctionEligible ? (isDark ? "text-emerald-400" : "text-emerald-600") : isDark ? "text-cyan-300" : "text-blue-600"}`}
+                    className={`text-3xl font-bold ${hasClassification ? (isDark ? "text-emerald-400" : "text-emerald-600") : isDark ? "text-cyan-300" : "text-blue-600"}`}
                   >
                     {overallWAM}
                   </div>
                   <p className={`${isDark ? "text-slate-300" : "text-gray-600"}`}>Overall WAM</p>
+                  <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+                    {classification.band?.name ?? "No classification yet"}
+                    {classification.wam !== null && ` (${formatScore(classification.wam)})`}
+                  </p>
+                  {hasRunningMarks && (
+                    <p
+                      className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}
+                      title="Includes subjects in progress at their running assessment mark"
+                    >
+                      Projected {projectedWAM} with marks so far
+                    </p>
+                  )}
                 </div>
                 <div className="text-center">
                   <div className={`text-3xl font-bold ${isDark ? "text-cyan-300" : "text-blue-600"}`}>
@@ -1030,6 +1406,55 @@ export default function WAMCalculator() {
                   <p className={`${isDark ? "text-slate-300" : "text-gray-600"}`}>CGPA</p>
                 </div>
               </div>
+
+              {/* Per-level breakdown */}
+              {levelSummaries.length > 0 && (
+                <div className={`mt-8 pt-6 border-t ${isDark ? "border-slate-600" : "border-blue-200"}`}>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {levelSummaries.map((summary) => {
+                      const minimumCheck = levelMinimumChecks.find((check) => check.level === summary.level)
+                      return (
+                        <div
+                          key={summary.label}
+                          className={`p-3 rounded-lg text-center ${isDark ? "bg-slate-700/50" : "bg-white/70"}`}
+                        >
+                          <div className={`font-semibold ${isDark ? "text-slate-200" : "text-gray-800"}`}>
+                            {summary.label}
+                          </div>
+                          <div className={`text-xl font-bold ${isDark ? "text-cyan-300" : "text-blue-600"}`}>
+                            {summary.wam === null ? "—" : formatScore(summary.wam)}
+                          </div>
+                          <div className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+                            WAM · {summary.credits} credits
+                          </div>
+                          {minimumCheck && (
+                            <div
+                              className={`text-xs mt-1 ${minimumCheck.isMet ? (isDark ? "text-emerald-400" : "text-emerald-600") : isDark ? "text-orange-400" : "text-orange-600"}`}
+                            >
+                              {minimumCheck.isMet
+                                ? `Minimum of ${minimumCheck.required} met`
+                                : `${minimumCheck.required - minimumCheck.completed} short of ${minimumCheck.required} minimum`}
+                            </div>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                  {disciplineCredits.length > 0 && (
+                    <div className="flex flex-wrap justify-center gap-2 mt-4">
+                      {disciplineCredits.map((entry) => (
+                        <Badge
+                          key={entry.discipline}
+                          variant="secondary"
+                          className={`${isDark ? "bg-slate-600 text-slate-200" : "bg-gray-200 text-gray-700"}`}
+                        >
+                          {entry.discipline}: {entry.credits} cp
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -1060,6 +1485,31 @@ export default function WAMCalculator() {
             className={`flex flex-col space-y-2 p-4 rounded-xl shadow-2xl ${isDark ? "bg-slate-800/95 border border-slate-600" : "bg-white/95 border border-gray-200"} backdrop-blur-md transform transition-all duration-300 ease-out
               ${showControls ? "opacity-100 scale-100 translate-y-0" : "opacity-0 scale-95 translate-y-2 pointer-events-none"}`}
           >
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={undo}
+                disabled={!canUndo}
+                className={`${isDark ? "hover:bg-slate-700 text-slate-200" : "hover:bg-gray-100 text-gray-700"} flex-1 justify-start`}
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Undo
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={redo}
+                disabled={!canRedo}
+                className={`${isDark ? "hover:bg-slate-700 text-slate-200" : "hover:bg-gray-100 text-gray-700"} flex-1 justify-start`}
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="w-4 h-4 mr-2" />
+                Redo
+              </Button>
+            </div>
+
             <Button
               onClick={() => setTheme(theme === "light" ? "dark" : "light")}
               size="sm"
@@ -1115,6 +1565,13 @@ export default function WAMCalculator() {
                       </h3>
                       <ul className="list-disc list-inside space-y-1">
                         <li>A final WAM of 75 or more typically makes you eligible to graduate with distinction</li>
+                        <li>
+                          Your classification uses {settings.classification.name}:{" "}
+                          {sortClassificationBands(settings.classification.bands)
+                            .map((band) => `${band.name} ${band.minWAM}+`)
+                            .join(", ")}
+                          . Change it under Classification.
+                        </li>
                         <li>This calculator is a guide only; final assessment is done by UOWD</li>
                         <li>Check official UOWD Coursework Rules for detailed eligibility criteria</li>
                       </ul>
@@ -1125,12 +1582,12 @@ export default function WAMCalculator() {
                         Grade Scale
                       </h3>
                       <div className="grid grid-cols-2 gap-2 text-sm">
-                        <div>HD (85-100): High Distinction</div>
-                        <div>D (75-84): Distinction</div>
-                        <div>C (65-74): Credit</div>
-                        <div>P (50-64): Pass</div>
-                        <div>TF (49): Technical Fail</div>
-                        <div>F (0-48): Fail</div>
+                        {sortGradeBands(gradeBands).map((band) => (
+                          <div key={band.id}>
+                            <span className={getGradeColorClass(band.grade, gradeBands)}>{band.grade}</span> (
+                            {formatBandRange(band, gradeBands)}): {band.label || band.grade}
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
@@ -1138,61 +1595,22 @@ export default function WAMCalculator() {
               </DialogContent>
             </Dialog>
 
-            <Dialog open={showSettingsModal} onOpenChange={setShowSettingsModal}>
-              <DialogTrigger asChild>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  className={`${isDark ? "hover:bg-slate-700 text-slate-200" : "hover:bg-gray-100 text-gray-700"} justify-start`}
-                >
-                  <Settings className="w-4 h-4 mr-2" />
-                  Settings
-                </Button>
-              </DialogTrigger>
-              <DialogContent className={`${isDark ? "bg-slate-800 border-slate-600" : "bg-white border-gray-200"}`}>
-                <DialogHeader>
-                  <DialogTitle className={`${isDark ? "text-slate-100" : "text-gray-900"}`}>
-                    Change Grading System
-                  </DialogTitle>
-                </DialogHeader>
-                <div className="space-y-3">
-                  {Object.entries(gradingSystem).map(([grade, value]) => (
-                    <div key={grade} className="flex items-center space-x-3">
-                      <label className={`w-1/4 font-semibold ${isDark ? "text-slate-200" : "text-gray-700"}`}>
-                        {grade}
-                      </label>
-                      <Input
-                        type="number"
-                        step="0.1"
-                        value={value}
-                        onChange={(e) =>
-                          setGradingSystem((prev) => ({
-                            ...prev,
-                            [grade]: Number.parseFloat(e.target.value) || 0,
-                          }))
-                        }
-                        className={`w-1/2 ${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
-                      />
-                    </div>
-                  ))}
-                </div>
-                <div className="flex justify-end space-x-3 mt-6">
-                  <Button
-                    variant="outline"
-                    onClick={() => setGradingSystem(DEFAULT_GRADING_SYSTEM)}
-                    className={`${isDark ? "border-slate-600 text-slate-300 hover:bg-slate-700" : "border-gray-300 text-gray-700 hover:bg-gray-50"}`}
-                  >
-                    Reset to Default
-                  </Button>
-                  <Button
-                    onClick={() => setShowSettingsModal(false)}
-                    className={`${isDark ? "bg-cyan-600 hover:bg-cyan-700" : "bg-blue-600 hover:bg-blue-700"} text-white`}
-                  >
-                    Save Changes
-                  </Button>
-                </div>
-              </DialogContent>
-            </Dialog>
+            <ClassificationSettings
+              scheme={settings.classification}
+              onSave={(classificationScheme) =>
+                setSettings((prev) => ({ ...prev, classification: classificationScheme }))
+              }
+              isDark={isDark}
+            />
+
+            <GradingSchemeSettings
+              scheme={gradingScheme}
+              customSchemes={customSchemes}
+              onSelectScheme={setGradingScheme}
+              onSaveScheme={saveGradingScheme}
+              onDeleteScheme={deleteGradingScheme}
+              isDark={isDark}
+            />
 
             <Button
               size="sm"
@@ -1226,7 +1644,11 @@ export default function WAMCalculator() {
               Import Data
             </Button>
 
-            <EnrollmentImport onImport={handleEnrollmentImport} />
+            <EnrollmentImport
+              onImport={handleEnrollmentImport}
+              existingSemesters={semesters}
+              gradeBands={gradeBands}
+            />
 
             <Link href="/advanced">
               <Button
@@ -1257,7 +1679,8 @@ export default function WAMCalculator() {
                   </DialogTitle>
                 </DialogHeader>
                 <p className={`mb-6 ${isDark ? "text-slate-300" : "text-gray-700"}`}>
-                  Are you sure you want to delete ALL your semester and subject data? This action cannot be undone.
+                  Are you sure you want to delete ALL your semester and subject data? You can undo this straight
+                  afterwards from the notification or with Ctrl+Z.
                 </p>
                 <div className="flex justify-end space-x-3">
                   <Button
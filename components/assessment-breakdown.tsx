@@ -0,0 +1,210 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ListChecks, Plus, Trash2 } from "lucide-react"
+import type { Subject } from "@/lib/academic-engine"
+import { sortGradeBands, type GradeBand } from "@/lib/grade-bands"
+import {
+  getAssessmentMark,
+  getAssessmentProgress,
+  getRequiredRemainingScore,
+  type Assessment,
+} from "@/lib/assessments"
+import { generateUniqueId } from "@/lib/utils"
+
+interface AssessmentBreakdownProps {
+  subject: Subject
+  gradeBands: GradeBand[]
+  onChange: (assessments: Assessment[]) => void
+  isDark: boolean
+}
+
+// A typical UOWD breakdown to start from
+const DEFAULT_ASSESSMENTS = [
+  { name: "Assignments", weight: "30" },
+  { name: "Mid-session exam", weight: "20" },
+  { name: "Final exam", weight: "50" },
+]
+
+function cleanPercentage(value: string): string {
+  const [whole, fraction] = value.replace(/[^0-9.]/g, "").split(".")
+  const cleaned = fraction !== undefined ? `${whole}.${fraction.slice(0, 2)}` : whole
+  return Number.parseFloat(cleaned) > 100 ? "100" : cleaned
+}
+
+export function AssessmentBreakdown({ subject, gradeBands, onChange, isDark }: AssessmentBreakdownProps) {
+  const passingBands = sortGradeBands(gradeBands).filter((band) => !band.isFail)
+  const [targetBandId, setTargetBandId] = useState(passingBands[passingBands.length - 1]?.id ?? "")
+
+  const assessments = subject.assessments ?? []
+  const progress = getAssessmentProgress(assessments)
+  const finalMark = getAssessmentMark(assessments)
+  const targetBand = passingBands.find((band) => band.id === targetBandId)
+  const requiredScore = targetBand ? getRequiredRemainingScore(assessments, targetBand.minMark) : null
+
+  const inputClass = isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"
+  const mutedClass = isDark ? "text-slate-400" : "text-gray-500"
+
+  const updateAssessment = (assessmentId: string, changes: Partial<Assessment>) => {
+    onChange(assessments.map((assessment) => (assessment.id === assessmentId ? { ...assessment, ...changes } : assessment)))
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant={assessments.length > 0 ? "default" : "outline"}
+          size="sm"
+          title="Assessment breakdown"
+          className={
+            assessments.length > 0
+              ? isDark
+                ? "bg-cyan-600 hover:bg-cyan-700 text-white"
+                : "bg-blue-600 hover:bg-blue-700 text-white"
+              : isDark
+                ? "border-slate-600 text-slate-300 hover:bg-slate-700"
+                : "border-gray-300 text-gray-700 hover:bg-gray-50"
+          }
+        >
+          <ListChecks className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className={`max-w-2xl ${isDark ? "bg-slate-800 border-slate-600" : "bg-white border-gray-200"}`}>
+        <DialogHeader>
+          <DialogTitle className={`${isDark ? "text-slate-100" : "text-gray-900"}`}>
+            {subject.code || "Subject"} Assessments
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className={`text-sm ${mutedClass}`}>
+          Weights and scores are percentages. The subject mark is filled in once every assessment is scored.
+        </p>
+
+        <div className="space-y-2">
+          <div className={`grid grid-cols-12 gap-2 text-xs font-semibold ${isDark ? "text-slate-300" : "text-gray-600"}`}>
+            <span className="col-span-6">Assessment</span>
+            <span className="col-span-2">Weight %</span>
+            <span className="col-span-3">Score %</span>
+          </div>
+          {assessments.map((assessment) => (
+            <div key={assessment.id} className="grid grid-cols-12 gap-2 items-center">
+              <Input
+                value={assessment.name}
+                onChange={(e) => updateAssessment(assessment.id, { name: e.target.value })}
+                placeholder="e.g., Final exam"
+                maxLength={50}
+                className={`col-span-6 ${inputClass}`}
+              />
+              <Input
+                value={assessment.weight}
+                onChange={(e) => updateAssessment(assessment.id, { weight: cleanPercentage(e.target.value) })}
+                placeholder="40"
+                className={`col-span-2 ${inputClass}`}
+              />
+              <Input
+                value={assessment.score}
+                onChange={(e) => updateAssessment(assessment.id, { score: cleanPercentage(e.target.value) })}
+                placeholder="Not yet"
+                className={`col-span-3 ${inputClass}`}
+              />
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => onChange(assessments.filter((a) => a.id !== assessment.id))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onChange([...assessments, { id: generateUniqueId(), name: "", weight: "", score: "" }])}
+              className={isDark ? "border-slate-600 text-slate-300 hover:bg-slate-700" : "border-gray-300 text-gray-700 hover:bg-gray-50"}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Assessment
+            </Button>
+            {assessments.length === 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onChange(DEFAULT_ASSESSMENTS.map((preset) => ({ ...preset, id: generateUniqueId(), score: "" })))}
+                className={isDark ? "border-slate-600 text-slate-300 hover:bg-slate-700" : "border-gray-300 text-gray-700 hover:bg-gray-50"}
+              >
+                Use Typical Breakdown
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {assessments.length > 0 && (
+          <div className={`grid grid-cols-3 gap-3 p-3 rounded-lg text-sm ${isDark ? "bg-slate-700/50" : "bg-gray-50"}`}>
+            <div>
+              <div className={mutedClass}>Weights</div>
+              <div
+                className={`font-semibold ${
+                  Math.abs(progress.totalWeight - 100) < 0.01
+                    ? isDark
+                      ? "text-slate-200"
+                      : "text-gray-800"
+                    : isDark
+                      ? "text-orange-300"
+                      : "text-orange-600"
+                }`}
+              >
+                {progress.totalWeight}% of 100%
+              </div>
+            </div>
+            <div>
+              <div className={mutedClass}>Running mark</div>
+              <div className={`font-semibold ${isDark ? "text-slate-200" : "text-gray-800"}`}>
+                {progress.runningMark !== null ? `${progress.runningMark} over ${progress.scoredWeight}%` : "—"}
+              </div>
+            </div>
+            <div>
+              <div className={mutedClass}>Final mark</div>
+              <div className={`font-semibold ${isDark ? "text-cyan-300" : "text-blue-600"}`}>
+                {finalMark !== null ? finalMark : `${Math.round(progress.earned * 100) / 100} banked`}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {assessments.length > 0 && finalMark === null && passingBands.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={isDark ? "text-slate-300" : "text-gray-700"}>To finish with at least</span>
+            <select
+              value={targetBandId}
+              onChange={(e) => setTargetBandId(e.target.value)}
+              className={`h-9 rounded-md border px-2 text-sm ${inputClass}`}
+            >
+              {passingBands.map((band) => (
+                <option key={band.id} value={band.id}>
+                  {band.label} ({band.minMark})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {assessments.length > 0 && finalMark === null && requiredScore !== null && (
+          <Alert className={`${isDark ? "bg-slate-700/50 border-slate-600" : "bg-blue-50 border-blue-200"}`}>
+            <AlertDescription className={`${isDark ? "text-slate-200" : "text-blue-800"}`}>
+              {requiredScore > 100
+                ? `${targetBand?.label} is out of reach: it would need ${requiredScore}% on the remaining ${100 - progress.scoredWeight}%.`
+                : requiredScore === 0
+                  ? `${targetBand?.label} is already secured.`
+                  : `You need an average of ${requiredScore}% on the remaining ${100 - progress.scoredWeight}% of the subject.`}
+            </AlertDescription>
+          </Alert>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
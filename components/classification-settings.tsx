@@ -0,0 +1,225 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Award, Plus, Trash2 } from "lucide-react"
+import {
+  PRESET_CLASSIFICATIONS,
+  isPresetClassification,
+  sortClassificationBands,
+  validateClassificationScheme,
+  type ClassificationBand,
+  type ClassificationScheme,
+} from "@/lib/classification"
+import { generateUniqueId } from "@/lib/utils"
+
+interface ClassificationSettingsProps {
+  scheme: ClassificationScheme
+  onSave: (scheme: ClassificationScheme) => void
+  isDark: boolean
+}
+
+const LEVELS = ["1", "2", "3", "4"]
+
+export function ClassificationSettings({ scheme, onSave, isDark }: ClassificationSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState<ClassificationScheme>(scheme)
+
+  const errors = validateClassificationScheme(draft)
+  const inputClass = isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"
+  const outlineClass = isDark
+    ? "border-slate-600 text-slate-300 hover:bg-slate-700"
+    : "border-gray-300 text-gray-700 hover:bg-gray-50"
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setDraft(scheme)
+    setIsOpen(open)
+  }
+
+  const handleSelectPreset = (presetId: string) => {
+    const preset = PRESET_CLASSIFICATIONS.find((s) => s.id === presetId)
+    if (preset) setDraft(preset)
+  }
+
+  const updateBand = (bandId: string, changes: Partial<ClassificationBand>) => {
+    setDraft((prev) => ({
+      ...prev,
+      bands: prev.bands.map((band) => (band.id === bandId ? { ...band, ...changes } : band)),
+    }))
+  }
+
+  const updateLevelWeight = (level: string, value: string) => {
+    setDraft((prev) => ({ ...prev, levelWeights: { ...prev.levelWeights, [level]: Number.parseFloat(value) || 0 } }))
+  }
+
+  // Editing a preset turns it into the profile's own custom classification
+  const handleSave = () => {
+    if (errors.length > 0) return
+    const preset = PRESET_CLASSIFICATIONS.find((s) => s.id === draft.id)
+    const isUnchanged = preset && JSON.stringify(preset) === JSON.stringify(draft)
+    const bands = sortClassificationBands(draft.bands.map((band) => ({ ...band, name: band.name.trim() })))
+    onSave(
+      isUnchanged
+        ? preset
+        : {
+            ...draft,
+            bands,
+            id: isPresetClassification(draft.id) ? "custom" : draft.id,
+            name: isPresetClassification(draft.id) ? `${draft.name} (custom)` : draft.name,
+          },
+    )
+    setIsOpen(false)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className={`${isDark ? "hover:bg-slate-700 text-slate-200" : "hover:bg-gray-100 text-gray-700"} justify-start`}
+        >
+          <Award className="w-4 h-4 mr-2" />
+          Classification
+        </Button>
+      </DialogTrigger>
+      <DialogContent className={`max-w-2xl ${isDark ? "bg-slate-800 border-slate-600" : "bg-white border-gray-200"}`}>
+        <DialogHeader>
+          <DialogTitle className={`${isDark ? "text-slate-100" : "text-gray-900"}`}>Award Classification</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <select
+            value={isPresetClassification(draft.id) ? draft.id : ""}
+            onChange={(e) => handleSelectPreset(e.target.value)}
+            className={`h-10 w-full rounded-md border px-2 text-sm ${inputClass}`}
+          >
+            {!isPresetClassification(draft.id) && <option value="">{draft.name}</option>}
+            {PRESET_CLASSIFICATIONS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name} (preset)
+              </option>
+            ))}
+          </select>
+          {isPresetClassification(draft.id) ? (
+            <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+              {draft.description} <Badge variant="secondary">Preset</Badge> Saving changes creates a custom copy.
+            </p>
+          ) : (
+            <Input
+              value={draft.name}
+              onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="Classification name"
+              className={inputClass}
+            />
+          )}
+        </div>
+
+        {/* Level weights */}
+        <div className="space-y-2">
+          <h3 className={`text-sm font-semibold ${isDark ? "text-slate-200" : "text-gray-700"}`}>
+            Level weights (0 leaves a level out)
+          </h3>
+          <div className="grid grid-cols-5 gap-2">
+            {LEVELS.map((level) => (
+              <label key={level} className={`text-xs ${isDark ? "text-slate-300" : "text-gray-600"}`}>
+                {level}00-level
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={draft.levelWeights[level] ?? 0}
+                  onChange={(e) => updateLevelWeight(level, e.target.value)}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+            <label className={`text-xs ${isDark ? "text-slate-300" : "text-gray-600"}`}>
+              No level
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={draft.unknownLevelWeight}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, unknownLevelWeight: Number.parseFloat(e.target.value) || 0 }))
+                }
+                className={inputClass}
+              />
+            </label>
+          </div>
+        </div>
+
+        {/* Bands */}
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          <h3 className={`text-sm font-semibold ${isDark ? "text-slate-200" : "text-gray-700"}`}>Bands</h3>
+          {draft.bands.map((band) => (
+            <div key={band.id} className="grid grid-cols-12 gap-2 items-center">
+              <Input
+                value={band.name}
+                onChange={(e) => updateBand(band.id, { name: e.target.value })}
+                placeholder="Distinction"
+                className={`col-span-8 ${inputClass}`}
+              />
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                value={band.minWAM}
+                onChange={(e) => updateBand(band.id, { minWAM: Number.parseFloat(e.target.value) })}
+                className={`col-span-3 ${inputClass}`}
+              />
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => setDraft((prev) => ({ ...prev, bands: prev.bands.filter((b) => b.id !== band.id) }))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setDraft((prev) => ({ ...prev, bands: [...prev.bands, { id: generateUniqueId(), name: "", minWAM: 0 }] }))
+            }
+            className={outlineClass}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Band
+          </Button>
+        </div>
+
+        {errors.length > 0 && (
+          <Alert className="border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+            <AlertDescription className="text-red-800 dark:text-red-200">
+              <ul className="list-disc list-inside">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <Button variant="outline" onClick={() => setIsOpen(false)} className={outlineClass}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={errors.length > 0}
+            className={`${isDark ? "bg-cyan-600 hover:bg-cyan-700" : "bg-blue-600 hover:bg-blue-700"} text-white`}
+          >
+            Save Changes
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
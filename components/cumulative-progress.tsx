@@ -0,0 +1,52 @@
+"use client"
+
+import { formatScore } from "@/lib/academic-engine"
+import type { SemesterProgressPoint } from "@/lib/progress-series"
+
+interface CumulativeProgressProps {
+  progress: SemesterProgressPoint | undefined
+  showsGPA: boolean
+  isDark: boolean
+}
+
+// Changes smaller than this round to 0.00 and are shown as no change
+const CHANGE_THRESHOLD = 0.005
+
+export function CumulativeProgress({ progress, showsGPA, isDark }: CumulativeProgressProps) {
+  if (!progress || progress.cumulativeWAM === null) return null
+
+  const figures = [
+    { label: "Cumulative WAM", value: progress.cumulativeWAM, change: progress.cumulativeWAMChange },
+    ...(showsGPA && progress.cumulativeGPA !== null
+      ? [{ label: "CGPA", value: progress.cumulativeGPA, change: progress.cumulativeGPAChange }]
+      : []),
+  ]
+
+  const changeClass = (change: number) =>
+    Math.abs(change) < CHANGE_THRESHOLD
+      ? isDark
+        ? "text-slate-400"
+        : "text-gray-500"
+      : change > 0
+        ? isDark
+          ? "text-emerald-400"
+          : "text-emerald-600"
+        : isDark
+          ? "text-red-400"
+          : "text-red-600"
+
+  const formatChange = (change: number) =>
+    Math.abs(change) < CHANGE_THRESHOLD ? "no change" : `${change > 0 ? "+" : "−"}${formatScore(Math.abs(change))}`
+
+  return (
+    <div className={`mt-2 flex flex-wrap gap-x-6 gap-y-1 text-sm ${isDark ? "text-slate-300" : "text-gray-600"}`}>
+      {figures.map(({ label, value, change }) => (
+        <span key={label}>
+          {label} after this semester:{" "}
+          <span className={`font-semibold ${isDark ? "text-slate-100" : "text-gray-800"}`}>{formatScore(value)}</span>
+          {change !== null && <span className={`ml-1 ${changeClass(change)}`}>({formatChange(change)})</span>}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { CheckCircle, AlertTriangle, Circle, FileJson } from "lucide-react"
+import type { Subject } from "@/lib/academic-engine"
+import type { GradeBand } from "@/lib/grade-bands"
+import {
+  PRESET_DEGREES,
+  evaluateDegree,
+  parseDegreeDefinition,
+  serializeDegreeDefinition,
+  type DegreeDefinition,
+  type RequirementStatus,
+} from "@/lib/degree-requirements"
+
+interface DegreeRequirementsPanelProps {
+  degree: DegreeDefinition | null
+  onChange: (degree: DegreeDefinition | null) => void
+  subjects: Subject[]
+  gradeBands: GradeBand[]
+  levelMinimumCredits: Record<string, number>
+  isDark: boolean
+}
+
+const STATUS_LABELS: Record<RequirementStatus, string> = {
+  satisfied: "Satisfied",
+  outstanding: "Outstanding",
+  "at-risk": "At risk",
+}
+
+export function DegreeRequirementsPanel({
+  degree,
+  onChange,
+  subjects,
+  gradeBands,
+  levelMinimumCredits,
+  isDark,
+}: DegreeRequirementsPanelProps) {
+  const [isEditorOpen, setIsEditorOpen] = useState(false)
+  const [draftText, setDraftText] = useState("")
+  const [draftErrors, setDraftErrors] = useState<string[]>([])
+
+  const results = degree ? evaluateDegree(degree, subjects, gradeBands, levelMinimumCredits) : []
+  const inputClass = isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"
+  const outlineClass = isDark
+    ? "border-slate-600 text-slate-300 hover:bg-slate-700"
+    : "border-gray-300 text-gray-700 hover:bg-gray-50"
+
+  const statusClass: Record<RequirementStatus, string> = {
+    satisfied: isDark ? "text-emerald-300" : "text-green-600",
+    outstanding: isDark ? "text-slate-300" : "text-gray-600",
+    "at-risk": isDark ? "text-orange-300" : "text-orange-600",
+  }
+
+  const handleSelect = (degreeId: string) => {
+    if (!degreeId) {
+      onChange(null)
+      return
+    }
+    const preset = PRESET_DEGREES.find((d) => d.id === degreeId)
+    if (preset) onChange(preset)
+  }
+
+  const handleEditorOpenChange = (open: boolean) => {
+    if (open) {
+      setDraftText(serializeDegreeDefinition(degree ?? PRESET_DEGREES[0]))
+      setDraftErrors([])
+    }
+    setIsEditorOpen(open)
+  }
+
+  const handleSaveDefinition = () => {
+    const { definition, errors } = parseDegreeDefinition(draftText)
+    if (!definition) {
+      setDraftErrors(errors)
+      return
+    }
+    onChange(definition)
+    setIsEditorOpen(false)
+  }
+
+  const isPreset = degree !== null && PRESET_DEGREES.some((d) => d.id === degree.id)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className={`text-lg font-semibold ${isDark ? "text-slate-200" : "text-gray-800"}`}>Degree Requirements</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={isPreset ? degree!.id : degree ? "custom" : ""}
+            onChange={(e) => handleSelect(e.target.value)}
+            className={`h-9 rounded-md border px-2 text-sm ${inputClass}`}
+          >
+            <option value="">No degree selected</option>
+            {PRESET_DEGREES.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+            {degree && !isPreset && <option value="custom">{degree.name}</option>}
+          </select>
+
+          <Dialog open={isEditorOpen} onOpenChange={handleEditorOpenChange}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" className={outlineClass}>
+                <FileJson className="w-4 h-4 mr-2" />
+                Edit Definition
+              </Button>
+            </DialogTrigger>
+            <DialogContent className={`max-w-3xl ${isDark ? "bg-slate-800 border-slate-600" : "bg-white border-gray-200"}`}>
+              <DialogHeader>
+                <DialogTitle className={`${isDark ? "text-slate-100" : "text-gray-900"}`}>Degree Definition</DialogTitle>
+              </DialogHeader>
+              <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+                Rules can be <code>core</code>, <code>major</code>, <code>elective-pool</code>, <code>level-maximum</code>{" "}
+                or <code>total-credits</code>. Elective pools are filled in the order they are listed, and each subject
+                counts towards one rule only. Level minimums are set under Credits by Level. Give the definition a new id
+                to keep it separate from the presets.
+              </p>
+              <Textarea
+                value={draftText}
+                onChange={(e) => setDraftText(e.target.value)}
+                className={`min-h-[360px] font-mono text-xs ${inputClass}`}
+              />
+              {draftErrors.length > 0 && (
+                <Alert className="border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+                  <AlertDescription className="text-red-800 dark:text-red-200">
+                    <ul className="list-disc list-inside">
+                      {draftErrors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              <div className="flex justify-end space-x-3">
+                <Button variant="outline" onClick={() => setIsEditorOpen(false)} className={outlineClass}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleSaveDefinition}
+                  className={`${isDark ? "bg-cyan-600 hover:bg-cyan-700" : "bg-blue-600 hover:bg-blue-700"} text-white`}
+                >
+                  Save Definition
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      {!degree ? (
+        <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+          Choose a degree definition to check core subjects, majors, electives and level limits.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(STATUS_LABELS) as RequirementStatus[]).map((status) => (
+              <Badge key={status} variant={status === "at-risk" ? "destructive" : "secondary"}>
+                {results.filter((result) => result.status === status).length} {STATUS_LABELS[status].toLowerCase()}
+              </Badge>
+            ))}
+          </div>
+          {results.map((result) => (
+            <div
+              key={result.id}
+              className={`flex items-start gap-3 p-3 rounded-lg ${isDark ? "bg-slate-700/50" : "bg-gray-50"}`}
+            >
+              <span className={`mt-0.5 ${statusClass[result.status]}`}>
+                {result.status === "satisfied" ? (
+                  <CheckCircle className="w-4 h-4" />
+                ) : result.status === "at-risk" ? (
+                  <AlertTriangle className="w-4 h-4" />
+                ) : (
+                  <Circle className="w-4 h-4" />
+                )}
+              </span>
+              <div className="flex-1">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className={`font-medium ${isDark ? "text-slate-200" : "text-gray-800"}`}>{result.label}</span>
+                  <span className={`text-sm ${statusClass[result.status]}`}>
+                    {STATUS_LABELS[result.status]} · {result.completed} / {result.required}
+                  </span>
+                </div>
+                <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>{result.detail}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
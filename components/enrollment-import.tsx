@@ -7,60 +7,87 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
-import { Upload, FileText, CheckCircle, AlertCircle, Info } from "lucide-react"
-import { parseEnrollmentRecord, groupBySemester, calculateWAM, calculateGPA, getCreditBreakdown } from "@/lib/enrollment-parser"
-import type { ParsedSemester } from "@/lib/enrollment-parser"
+import { Upload, FileText, CheckCircle, AlertCircle, AlertTriangle, Info, GitMerge, Replace } from "lucide-react"
+import {
+  parseEnrollmentRecord,
+  groupBySemester,
+  calculateWAM,
+  calculateGPA,
+  getCreditBreakdown,
+  countRecordOutcomes,
+} from "@/lib/enrollment-parser"
+import type { ParseDiagnostic, ParsedSemester, RecordOutcome } from "@/lib/enrollment-parser"
+import {
+  applyEnrollmentImport,
+  planEnrollmentMerge,
+  summarizeMerge,
+  type ConflictResolution,
+  type ImportMode,
+} from "@/lib/enrollment-merge"
+import { MAX_SUBJECTS_PER_SEMESTER, type Semester } from "@/lib/academic-engine"
+import type { GradeBand } from "@/lib/grade-bands"
 
 interface EnrollmentImportProps {
-  onImport: (semesters: ParsedSemester[]) => void;
+  onImport: (semesters: Semester[], mode: ImportMode) => void;
+  existingSemesters: Semester[];
+  gradeBands: GradeBand[];
 }
 
-export function EnrollmentImport({ onImport }: EnrollmentImportProps) {
+export function EnrollmentImport({ onImport, existingSemesters, gradeBands }: EnrollmentImportProps) {
   const [inputText, setInputText] = useState("")
   const [isOpen, setIsOpen] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [preview, setPreview] = useState<ParsedSemester[] | null>(null)
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([])
+  const [mode, setMode] = useState<ImportMode>("merge")
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({})
   const [stats, setStats] = useState<{
     wam: number;
     gpa: number;
     credit100: number;
     credit200: number;
     credit300: number;
+    outcomes: Record<RecordOutcome, number>;
   } | null>(null)
 
   const handleParse = () => {
     try {
       setError(null)
+      setPreview(null)
+      setStats(null)
       
       if (!inputText.trim()) {
         setError("Please paste your enrollment record data.")
         return
       }
 
-      const records = parseEnrollmentRecord(inputText)
+      const { records, diagnostics } = parseEnrollmentRecord(inputText)
+      setDiagnostics(diagnostics)
       
       if (records.length === 0) {
-        setError("No valid enrollment records found. Please check the format of your data.")
+        setError("No valid enrollment records found. Check the line-by-line problems below and fix your paste.")
         return
       }
 
       const semesters = groupBySemester(records)
       
       if (semesters.length === 0) {
-        setError("No completed subjects found in your enrollment records.")
+        setError("No completed or in-progress subjects found in your enrollment records.")
         return
       }
 
       // Calculate statistics
       const wam = calculateWAM(records)
-      const gpa = calculateGPA(records)
+      const gpa = calculateGPA(records, gradeBands)
       const creditBreakdown = getCreditBreakdown(records)
 
       setPreview(semesters)
+      setResolutions({})
       setStats({
         wam,
         gpa,
-        ...creditBreakdown
+        ...creditBreakdown,
+        outcomes: countRecordOutcomes(records),
       })
 
     } catch (err) {
@@ -68,27 +95,52 @@ export function EnrollmentImport({ onImport }: EnrollmentImportProps) {
     }
   }
 
+  // Merging only makes sense when there is something to merge into
+  const hasExistingData = existingSemesters.some((semester) => semester.subjects.length > 0)
+  const effectiveMode: ImportMode = hasExistingData ? mode : "replace"
+  const changes = preview && effectiveMode === "merge" ? planEnrollmentMerge(existingSemesters, preview) : []
+  const summary = summarizeMerge(changes)
+  const conflicts = changes.filter((change) => change.kind === "conflict")
+  const overLimit = changes.filter((change) => change.kind === "over-limit")
+
+  const skippedLineCount = new Set(
+    diagnostics.filter((diagnostic) => diagnostic.severity === "error").map((diagnostic) => diagnostic.line),
+  ).size
+  const warningCount = diagnostics.filter((diagnostic) => diagnostic.severity === "warning").length
+
   const handleImport = () => {
     if (preview) {
-      onImport(preview)
-      setIsOpen(false)
-      setInputText("")
-      setPreview(null)
-      setStats(null)
-      setError(null)
+      onImport(applyEnrollmentImport(existingSemesters, preview, effectiveMode, resolutions), effectiveMode)
+      resetDialog()
     }
   }
 
-  const handleCancel = () => {
+  const resetDialog = () => {
     setIsOpen(false)
     setInputText("")
     setPreview(null)
     setStats(null)
     setError(null)
+    setDiagnostics([])
+    setResolutions({})
+  }
+
+  const handleCancel = () => {
+    resetDialog()
+  }
+
+  const resolveAllConflicts = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map((change) => [change.id, resolution])))
   }
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open)
+        if (open) setMode(hasExistingData ? "merge" : "replace")
+      }}
+    >
       <DialogTrigger asChild>
         <Button variant="outline" className="gap-2">
           <Upload className="h-4 w-4" />
@@ -109,11 +161,44 @@ export function EnrollmentImport({ onImport }: EnrollmentImportProps) {
             <Info className="h-4 w-4" />
             <AlertDescription>
               Copy and paste your enrollment record from SOLS. The system will automatically parse and organize your subjects by semester.
+              Subjects you are currently enrolled in are imported without a mark and used for grade prediction.
               <br />
               <strong>Expected format:</strong> Year, Session, Campus/Delivery, Subject Code, NomCP, Mark, Grade, Status
             </AlertDescription>
           </Alert>
 
+          {/* Import Mode */}
+          {hasExistingData && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">How should the record be imported?</div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant={mode === "merge" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setMode("merge")}
+                  className="gap-2"
+                >
+                  <GitMerge className="h-4 w-4" />
+                  Merge with my semesters
+                </Button>
+                <Button
+                  variant={mode === "replace" ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setMode("replace")}
+                  className="gap-2"
+                >
+                  <Replace className="h-4 w-4" />
+                  Replace everything
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {mode === "merge"
+                  ? "Semesters are matched by year and session, subjects by code. Marks you have entered are kept unless you choose otherwise."
+                  : "Your current semesters will be replaced by the imported record. You can undo this afterwards."}
+              </p>
+            </div>
+          )}
+
           {/* Input Area */}
           <div className="space-y-2">
             <label htmlFor="enrollment-input" className="text-sm font-medium">
@@ -139,7 +224,9 @@ export function EnrollmentImport({ onImport }: EnrollmentImportProps) {
             {preview && (
               <Button onClick={handleImport} variant="default" className="gap-2">
                 <CheckCircle className="h-4 w-4" />
-                Import {preview.length} Semester{preview.length !== 1 ? 's' : ''}
+                {effectiveMode === "merge"
+                  ? "Merge Record"
+                  : `Import ${preview.length} Semester${preview.length !== 1 ? "s" : ""}`}
               </Button>
             )}
           </div>
@@ -152,6 +239,40 @@ export function EnrollmentImport({ onImport }: EnrollmentImportProps) {
             </Alert>
           )}
 
+          {/* Line Diagnostics */}
+          {diagnostics.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-amber-500" />
+                  {skippedLineCount > 0
+                    ? `${skippedLineCount} line${skippedLineCount !== 1 ? "s" : ""} skipped`
+                    : "Check these lines"}
+                  {warningCount > 0 && (
+                    <Badge variant="outline">
+                      {warningCount} warning{warningCount !== 1 ? "s" : ""}
+                    </Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 max-h-[200px] overflow-y-auto text-sm">
+                  {diagnostics.map((diagnostic, index) => (
+                    <div key={index} className="p-2 bg-muted/50 rounded">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={diagnostic.severity === "error" ? "destructive" : "secondary"}>
+                          Line {diagnostic.line}
+                        </Badge>
+                        <span>{diagnostic.message}</span>
+                      </div>
+                      <div className="mt-1 font-mono text-xs text-muted-foreground truncate">{diagnostic.text}</div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Statistics Preview */}
           {stats && (
             <Card>
@@ -181,6 +302,101 @@ export function EnrollmentImport({ onImport }: EnrollmentImportProps) {
                     <div className="text-sm text-muted-foreground">300-Level Credits</div>
                   </div>
                 </div>
+                <div className="flex flex-wrap gap-2 mt-4 text-xs">
+                  {stats.outcomes["in-progress"] > 0 && (
+                    <Badge variant="secondary">{stats.outcomes["in-progress"]} in progress (no mark yet)</Badge>
+                  )}
+                  {stats.outcomes.supplementary > 0 && (
+                    <Badge variant="secondary">{stats.outcomes.supplementary} supplementary (replaces original mark)</Badge>
+                  )}
+                  {stats.outcomes.credit > 0 && (
+                    <Badge variant="secondary">{stats.outcomes.credit} advanced standing (credits only)</Badge>
+                  )}
+                  {stats.outcomes.withdrawn > 0 && (
+                    <Badge variant="outline">{stats.outcomes.withdrawn} withdrawn (excluded)</Badge>
+                  )}
+                  {stats.outcomes.unknown > 0 && (
+                    <Badge variant="destructive">{stats.outcomes.unknown} unrecognised status (skipped)</Badge>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Merge Changes */}
+          {preview && effectiveMode === "merge" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Changes to Your Semesters</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary">{summary.newSemesters} new semester{summary.newSemesters !== 1 ? "s" : ""}</Badge>
+                  <Badge variant="secondary">{summary.newSubjects} subject{summary.newSubjects !== 1 ? "s" : ""} added</Badge>
+                  <Badge variant="secondary">{summary.marksFilled} mark{summary.marksFilled !== 1 ? "s" : ""} filled in</Badge>
+                  <Badge variant={summary.conflicts > 0 ? "destructive" : "secondary"}>
+                    {summary.conflicts} conflict{summary.conflicts !== 1 ? "s" : ""}
+                  </Badge>
+                  <Badge variant="outline">{summary.unchanged} unchanged</Badge>
+                  {summary.overLimit > 0 && (
+                    <Badge variant="destructive">
+                      {summary.overLimit} subject{summary.overLimit !== 1 ? "s" : ""} over the limit (skipped)
+                    </Badge>
+                  )}
+                </div>
+
+                {overLimit.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    A semester holds at most {MAX_SUBJECTS_PER_SEMESTER} subjects, so these will not be added:{" "}
+                    {overLimit.map((change) => `${change.code} (${change.semesterName})`).join(", ")}
+                  </p>
+                )}
+
+                {conflicts.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="text-sm text-muted-foreground">
+                        These subjects already have a different mark or credit points. Choose which to keep.
+                      </p>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => resolveAllConflicts("keep")}>
+                          Keep all mine
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => resolveAllConflicts("import")}>
+                          Use all from record
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="space-y-2 max-h-[200px] overflow-y-auto">
+                      {conflicts.map((change) => (
+                        <div key={change.id} className="flex flex-wrap items-center justify-between gap-2 p-2 bg-muted/50 rounded text-sm">
+                          <div>
+                            <span className="font-mono font-semibold">{change.code}</span>
+                            <span className="text-muted-foreground"> · {change.semesterName}</span>
+                          </div>
+                          <div className="flex items-center gap-3 text-xs">
+                            <span>
+                              Mine: {change.current?.creditPoints}CP, {change.current?.mark}%
+                            </span>
+                            <span>
+                              Record: {change.incoming.creditPoints}CP, {change.incoming.mark}%
+                            </span>
+                            <select
+                              value={resolutions[change.id] ?? "keep"}
+                              onChange={(e) =>
+                                setResolutions((prev) => ({ ...prev, [change.id]: e.target.value as ConflictResolution }))
+                              }
+                              className="h-8 rounded-md border bg-background px-2 text-xs"
+                            >
+                              <option value="keep">Keep mine</option>
+                              <option value="import">Use record</option>
+                            </select>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           )}
@@ -207,7 +423,9 @@ export function EnrollmentImport({ onImport }: EnrollmentImportProps) {
                             <span className="font-mono">{subject.code}</span>
                             <div className="flex gap-2 text-xs">
                               <span>{subject.creditPoints}CP</span>
-                              <span className="font-semibold">{subject.mark}%</span>
+                              <span className="font-semibold">
+                                {subject.kind === "credit" ? "Credit" : subject.mark ? `${subject.mark}%` : "In progress"}
+                              </span>
                             </div>
                           </div>
                         ))}
@@ -227,7 +445,7 @@ export function EnrollmentImport({ onImport }: EnrollmentImportProps) {
             {preview && (
               <Button onClick={handleImport} className="gap-2">
                 <CheckCircle className="h-4 w-4" />
-                Import Data
+                {effectiveMode === "merge" ? "Apply Changes" : "Import Data"}
               </Button>
             )}
           </div>
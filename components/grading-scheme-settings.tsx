@@ -0,0 +1,343 @@
+"use client"
+
+import type React from "react"
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Copy, Download, Plus, Settings, Trash2, Upload } from "lucide-react"
+import { GRADE_COLORS, sortGradeBands, validateGradeBands, type GradeBand, type GradeColor } from "@/lib/grade-bands"
+import {
+  adoptScheme,
+  duplicateScheme,
+  getAllSchemes,
+  hasSameBands,
+  isPresetScheme,
+  parseGradingSchemeFile,
+  serializeGradingScheme,
+  type GradingScheme,
+} from "@/lib/grading-schemes"
+import { generateUniqueId } from "@/lib/utils"
+
+interface GradingSchemeSettingsProps {
+  scheme: GradingScheme
+  customSchemes: GradingScheme[]
+  onSelectScheme: (scheme: GradingScheme) => void
+  onSaveScheme: (scheme: GradingScheme) => void
+  onDeleteScheme: (schemeId: string) => void
+  isDark: boolean
+}
+
+export function GradingSchemeSettings({
+  scheme,
+  customSchemes,
+  onSelectScheme,
+  onSaveScheme,
+  onDeleteScheme,
+  isDark,
+}: GradingSchemeSettingsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState<GradingScheme>(scheme)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const isPreset = isPresetScheme(draft.id)
+  const bandErrors = validateGradeBands(draft.bands)
+  const inputClass = isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"
+  const outlineClass = isDark
+    ? "border-slate-600 text-slate-300 hover:bg-slate-700"
+    : "border-gray-300 text-gray-700 hover:bg-gray-50"
+
+  const loadDraft = (next: GradingScheme) => {
+    setDraft({ ...next, bands: sortGradeBands(next.bands) })
+    setFileError(null)
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) loadDraft(scheme)
+    setIsOpen(open)
+  }
+
+  const handleSelect = (schemeId: string) => {
+    const next = getAllSchemes(customSchemes).find((s) => s.id === schemeId)
+    if (!next) return
+    onSelectScheme(next)
+    loadDraft(next)
+  }
+
+  const updateBand = (bandId: string, changes: Partial<GradeBand>) => {
+    setDraft((prev) => ({
+      ...prev,
+      bands: prev.bands.map((band) => (band.id === bandId ? { ...band, ...changes } : band)),
+    }))
+  }
+
+  const addBand = () => {
+    setDraft((prev) => ({
+      ...prev,
+      bands: [
+        ...prev.bands,
+        { id: generateUniqueId(), grade: "", label: "", minMark: 0, gradePoint: 0, color: "gray", isFail: false },
+      ],
+    }))
+  }
+
+  const removeBand = (bandId: string) => {
+    setDraft((prev) => ({ ...prev, bands: prev.bands.filter((band) => band.id !== bandId) }))
+  }
+
+  const handleDuplicate = () => {
+    const copy = duplicateScheme(draft)
+    onSaveScheme(copy)
+    loadDraft(copy)
+  }
+
+  const handleDelete = () => {
+    onDeleteScheme(draft.id)
+    setIsOpen(false)
+  }
+
+  // Presets are read-only, so saving edits to one creates a custom copy
+  const handleSave = () => {
+    if (bandErrors.length > 0) return
+    const bands = sortGradeBands(draft.bands.map((band) => ({ ...band, grade: band.grade.trim() })))
+    const edited = { ...draft, bands }
+    const preset = getAllSchemes([]).find((s) => s.id === draft.id)
+
+    if (!preset) {
+      onSaveScheme(edited)
+    } else if (hasSameBands(preset, edited)) {
+      onSelectScheme(preset)
+    } else {
+      onSaveScheme({ ...duplicateScheme(edited), name: `${draft.name} (custom)` })
+    }
+    setIsOpen(false)
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([serializeGradingScheme(draft)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `${draft.name.replace(/[^a-z0-9]+/gi, "_").toLowerCase()}_grading_scheme.json`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (e) => {
+      try {
+        const imported = parseGradingSchemeFile(e.target?.result as string)
+        if (!imported) {
+          setFileError("Invalid grading scheme file.")
+          return
+        }
+        const adopted = adoptScheme(imported)
+        if (isPresetScheme(adopted.id)) {
+          onSelectScheme(adopted)
+        } else {
+          onSaveScheme(adopted)
+        }
+        loadDraft(adopted)
+      } catch (parseError) {
+        setFileError("Failed to import grading scheme. Invalid JSON file.")
+      } finally {
+        if (event.target) event.target.value = ""
+      }
+    }
+    reader.readAsText(file)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className={`${isDark ? "hover:bg-slate-700 text-slate-200" : "hover:bg-gray-100 text-gray-700"} justify-start`}
+        >
+          <Settings className="w-4 h-4 mr-2" />
+          Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className={`max-w-3xl ${isDark ? "bg-slate-800 border-slate-600" : "bg-white border-gray-200"}`}>
+        <DialogHeader>
+          <DialogTitle className={`${isDark ? "text-slate-100" : "text-gray-900"}`}>Change Grading System</DialogTitle>
+        </DialogHeader>
+
+        {/* Scheme selection */}
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={draft.id}
+              onChange={(e) => handleSelect(e.target.value)}
+              className={`h-10 flex-1 rounded-md border px-2 text-sm ${inputClass}`}
+            >
+              {getAllSchemes(customSchemes).map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                  {isPresetScheme(s.id) ? " (preset)" : ""}
+                </option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" onClick={handleDuplicate} className={outlineClass}>
+              <Copy className="w-4 h-4 mr-1" />
+              Duplicate
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} className={outlineClass}>
+              <Download className="w-4 h-4 mr-1" />
+              Share
+            </Button>
+            <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json" style={{ display: "none" }} />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className={outlineClass}>
+              <Upload className="w-4 h-4 mr-1" />
+              Import
+            </Button>
+            {!isPreset && (
+              <Button variant="destructive" size="sm" onClick={handleDelete}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+
+          {isPreset ? (
+            <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+              {draft.description} <Badge variant="secondary">Preset</Badge> Saving changes creates a custom copy.
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="Scheme name"
+                className={`col-span-2 ${inputClass}`}
+              />
+              <Input
+                type="number"
+                step="0.1"
+                value={draft.gpaScale ?? ""}
+                onChange={(e) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    gpaScale: e.target.value ? Number.parseFloat(e.target.value) || null : null,
+                  }))
+                }
+                placeholder="GPA scale (blank = WAM only)"
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Band editor */}
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          <div
+            className={`grid grid-cols-12 gap-2 text-xs font-semibold ${isDark ? "text-slate-300" : "text-gray-600"}`}
+          >
+            <span className="col-span-2">Grade</span>
+            <span className="col-span-3">Name</span>
+            <span className="col-span-2">Min Mark</span>
+            <span className="col-span-2">Grade Point</span>
+            <span className="col-span-2">Colour / Fail</span>
+          </div>
+          {draft.bands.map((band) => (
+            <div key={band.id} className="grid grid-cols-12 gap-2 items-center">
+              <Input
+                value={band.grade}
+                onChange={(e) => updateBand(band.id, { grade: e.target.value.toUpperCase().slice(0, 4) })}
+                placeholder="HD"
+                className={`col-span-2 ${inputClass}`}
+              />
+              <Input
+                value={band.label}
+                onChange={(e) => updateBand(band.id, { label: e.target.value })}
+                placeholder="High Distinction"
+                className={`col-span-3 ${inputClass}`}
+              />
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                value={band.minMark}
+                onChange={(e) => updateBand(band.id, { minMark: Number.parseFloat(e.target.value) })}
+                className={`col-span-2 ${inputClass}`}
+              />
+              <Input
+                type="number"
+                step="0.1"
+                value={band.gradePoint}
+                onChange={(e) => updateBand(band.id, { gradePoint: Number.parseFloat(e.target.value) || 0 })}
+                disabled={draft.gpaScale === null}
+                className={`col-span-2 ${inputClass}`}
+              />
+              <div className="col-span-2 flex items-center gap-2">
+                <select
+                  value={band.color}
+                  onChange={(e) => updateBand(band.id, { color: e.target.value as GradeColor })}
+                  className={`h-10 rounded-md border px-1 text-sm ${inputClass}`}
+                >
+                  {GRADE_COLORS.map((color) => (
+                    <option key={color} value={color}>
+                      {color}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="checkbox"
+                  checked={band.isFail}
+                  onChange={(e) => updateBand(band.id, { isFail: e.target.checked })}
+                  title="Counts as a fail (no credit earned)"
+                />
+              </div>
+              <Button variant="destructive" size="sm" onClick={() => removeBand(band.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addBand} className={outlineClass}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Band
+          </Button>
+        </div>
+
+        {(bandErrors.length > 0 || fileError) && (
+          <Alert className="border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+            <AlertDescription className="text-red-800 dark:text-red-200">
+              <ul className="list-disc list-inside">
+                {fileError && <li>{fileError}</li>}
+                {bandErrors.map((bandError) => (
+                  <li key={bandError}>{bandError}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <Button
+            variant="outline"
+            onClick={() => loadDraft(getAllSchemes(customSchemes).find((s) => s.id === draft.id) ?? scheme)}
+            className={outlineClass}
+          >
+            Discard Changes
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={bandErrors.length > 0}
+            className={`${isDark ? "bg-cyan-600 hover:bg-cyan-700" : "bg-blue-600 hover:bg-blue-700"} text-white`}
+          >
+            Save Changes
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
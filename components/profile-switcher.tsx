@@ -0,0 +1,146 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Copy, Plus, Trash2, Users } from "lucide-react"
+import type { ProfileIndex } from "@/lib/profiles"
+
+interface ProfileSwitcherProps {
+  index: ProfileIndex
+  onSwitch: (profileId: string) => void
+  onCreate: (name: string) => void
+  onRename: (profileId: string, name: string) => void
+  onDuplicate: (profileId: string) => void
+  onDelete: (profileId: string) => void
+  isDark: boolean
+}
+
+export function ProfileSwitcher({
+  index,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  isDark,
+}: ProfileSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [newProfileName, setNewProfileName] = useState("")
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null)
+
+  const inputClass = isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"
+  const outlineClass = isDark
+    ? "border-slate-600 text-slate-300 hover:bg-slate-700"
+    : "border-gray-300 text-gray-700 hover:bg-gray-50"
+
+  const handleCreate = () => {
+    onCreate(newProfileName)
+    setNewProfileName("")
+  }
+
+  const handleDelete = (profileId: string) => {
+    // Deleting needs a second click so a stray click cannot wipe a record
+    if (pendingDeleteId !== profileId) {
+      setPendingDeleteId(profileId)
+      return
+    }
+    onDelete(profileId)
+    setPendingDeleteId(null)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label className={`text-sm font-medium ${isDark ? "text-slate-300" : "text-gray-600"}`}>Profile:</label>
+      <select
+        value={index.activeProfileId}
+        onChange={(e) => onSwitch(e.target.value)}
+        className={`h-9 rounded-md border px-2 text-sm ${inputClass}`}
+      >
+        {index.profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+
+      <Dialog
+        open={isOpen}
+        onOpenChange={(open) => {
+          setIsOpen(open)
+          setPendingDeleteId(null)
+        }}
+      >
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className={outlineClass}>
+            <Users className="w-4 h-4 mr-2" />
+            Manage Profiles
+          </Button>
+        </DialogTrigger>
+        <DialogContent className={`${isDark ? "bg-slate-800 border-slate-600" : "bg-white border-gray-200"}`}>
+          <DialogHeader>
+            <DialogTitle className={`${isDark ? "text-slate-100" : "text-gray-900"}`}>Student Profiles</DialogTitle>
+          </DialogHeader>
+          <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+            Each profile keeps its own semesters, grading scheme and graduation settings.
+          </p>
+
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {index.profiles.map((profile) => (
+              <div key={profile.id} className="flex items-center gap-2">
+                <Input
+                  defaultValue={profile.name}
+                  onBlur={(e) => onRename(profile.id, e.target.value)}
+                  className={inputClass}
+                />
+                {profile.id === index.activeProfileId ? (
+                  <Badge variant="secondary">Active</Badge>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => onSwitch(profile.id)} className={outlineClass}>
+                    Open
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onDuplicate(profile.id)}
+                  className={outlineClass}
+                  title="Duplicate profile"
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => handleDelete(profile.id)}
+                  disabled={index.profiles.length <= 1}
+                  title="Delete profile"
+                >
+                  {pendingDeleteId === profile.id ? "Confirm" : <Trash2 className="w-4 h-4" />}
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2 pt-4 border-t">
+            <Input
+              value={newProfileName}
+              onChange={(e) => setNewProfileName(e.target.value)}
+              placeholder="e.g., Double Degree - Finance"
+              className={inputClass}
+            />
+            <Button
+              onClick={handleCreate}
+              className={`${isDark ? "bg-cyan-600 hover:bg-cyan-700" : "bg-blue-600 hover:bg-blue-700"} text-white`}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Profile
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+"use client"
+
+import { useRef, useState, type ReactNode } from "react"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import { Award, Download, Layers, TrendingUp } from "lucide-react"
+import { exportChartAsPNG, exportChartAsSVG } from "@/lib/chart-export"
+import { sortGradeBands, type GradeBand, type GradeColor } from "@/lib/grade-bands"
+import type { SemesterProgressPoint } from "@/lib/progress-series"
+
+interface ProgressChartsProps {
+  series: SemesterProgressPoint[]
+  gradeBands: GradeBand[]
+  showsGPA: boolean
+  isDark: boolean
+}
+
+// Chart fills for each band colour; recharts needs real colours, not Tailwind classes
+const GRADE_CHART_COLORS: Record<GradeColor, string> = {
+  emerald: "#10b981",
+  lime: "#84cc16",
+  blue: "#3b82f6",
+  indigo: "#6366f1",
+  purple: "#a855f7",
+  amber: "#f59e0b",
+  orange: "#f97316",
+  red: "#ef4444",
+  gray: "#6b7280",
+}
+
+const wamConfig = {
+  wam: { label: "Semester WAM", color: "hsl(var(--chart-1))" },
+  cumulativeWAM: { label: "Cumulative WAM", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+const gpaConfig = {
+  gpa: { label: "Semester GPA", color: "hsl(var(--chart-3))" },
+  cumulativeGPA: { label: "Cumulative GPA", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig
+
+const creditConfig = {
+  passedCredits: { label: "Passed", color: "#10b981" },
+  failedCredits: { label: "Failed", color: "#ef4444" },
+  plannedCredits: { label: "In progress", color: "#f59e0b" },
+  advancedStandingCredits: { label: "Advanced standing", color: "#6366f1" },
+} satisfies ChartConfig
+
+const roundScore = (value: number | null) => (value === null ? null : Math.round(value * 100) / 100)
+
+interface ChartCardProps {
+  title: string
+  icon: ReactNode
+  filename: string
+  isDark: boolean
+  children: ReactNode
+}
+
+function ChartCard({ title, icon, filename, isDark, children }: ChartCardProps) {
+  const chartRef = useRef<HTMLDivElement>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const background = isDark ? "#1e293b" : "#ffffff"
+  const buttonClass = isDark
+    ? "border-slate-600 text-slate-300 hover:bg-slate-700"
+    : "border-gray-300 text-gray-700 hover:bg-gray-50"
+
+  const handleExport = async (format: "png" | "svg") => {
+    if (!chartRef.current) return
+    try {
+      setExportError(null)
+      if (format === "svg") {
+        exportChartAsSVG(chartRef.current, filename, background)
+      } else {
+        await exportChartAsPNG(chartRef.current, filename, background)
+      }
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : "Could not export the chart")
+    }
+  }
+
+  return (
+    <Card className={`${isDark ? "bg-slate-800/40 border-slate-700" : "bg-white/90 border-gray-200"} backdrop-blur-sm`}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className={`${isDark ? "text-slate-100" : "text-gray-800"} flex items-center gap-2`}>
+          {icon}
+          {title}
+        </CardTitle>
+        <div className="flex gap-2">
+          {(["png", "svg"] as const).map((format) => (
+            <Button
+              key={format}
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport(format)}
+              className={buttonClass}
+              title={`Download as ${format.toUpperCase()}`}
+            >
+              <Download className="w-4 h-4 mr-1" />
+              {format.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div ref={chartRef}>{children}</div>
+        {exportError && <p className={`text-xs ${isDark ? "text-red-300" : "text-red-600"}`}>{exportError}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function ProgressCharts({ series, gradeBands, showsGPA, isDark }: ProgressChartsProps) {
+  const bands = sortGradeBands(gradeBands)
+  const mutedClass = isDark ? "text-slate-400" : "text-gray-500"
+
+  if (series.length === 0) {
+    return <p className={`text-sm ${mutedClass}`}>Add semesters in the calculator to see your progress charts.</p>
+  }
+
+  const scoreData = series.map((point) => ({
+    name: point.name,
+    wam: roundScore(point.wam),
+    cumulativeWAM: roundScore(point.cumulativeWAM),
+    gpa: roundScore(point.gpa),
+    cumulativeGPA: roundScore(point.cumulativeGPA),
+  }))
+  // Keyed by band id, since grades like "A+" are not valid CSS variable names
+  const gradeData = series.map((point) => ({
+    name: point.name,
+    ...Object.fromEntries(bands.map((band) => [band.id, point.grades[band.grade] ?? 0])),
+  }))
+  const gradeConfig: ChartConfig = Object.fromEntries(
+    bands.map((band) => [band.id, { label: band.grade, color: GRADE_CHART_COLORS[band.color] }]),
+  )
+  const hasMarks = series.some((point) => point.wam !== null)
+
+  return (
+    <div className="space-y-6">
+      <ChartCard title="WAM Trend" icon={<TrendingUp className="w-5 h-5" />} filename="wam-trend" isDark={isDark}>
+        {hasMarks ? (
+          <ChartContainer config={wamConfig} className="h-64 w-full">
+            <LineChart data={scoreData} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="name" tickLine={false} axisLine={false} />
+              <YAxis domain={["auto", "auto"]} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="wam" stroke="var(--color-wam)" strokeWidth={2} dot connectNulls />
+              <Line dataKey="cumulativeWAM" stroke="var(--color-cumulativeWAM)" strokeWidth={2} strokeDasharray="5 4" dot connectNulls />
+            </LineChart>
+          </ChartContainer>
+        ) : (
+          <p className={`text-sm ${mutedClass}`}>Enter marks to see your WAM trend.</p>
+        )}
+      </ChartCard>
+
+      {showsGPA && hasMarks && (
+        <ChartCard title="GPA Trend" icon={<TrendingUp className="w-5 h-5" />} filename="gpa-trend" isDark={isDark}>
+          <ChartContainer config={gpaConfig} className="h-64 w-full">
+            <LineChart data={scoreData} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="name" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, "auto"]} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="gpa" stroke="var(--color-gpa)" strokeWidth={2} dot connectNulls />
+              <Line dataKey="cumulativeGPA" stroke="var(--color-cumulativeGPA)" strokeWidth={2} strokeDasharray="5 4" dot connectNulls />
+            </LineChart>
+          </ChartContainer>
+        </ChartCard>
+      )}
+
+      <ChartCard title="Grades by Semester" icon={<Award className="w-5 h-5" />} filename="grades-by-semester" isDark={isDark}>
+        {hasMarks ? (
+          <ChartContainer config={gradeConfig} className="h-64 w-full">
+            <BarChart data={gradeData} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="name" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {/* Lowest band at the bottom of each stack */}
+              {[...bands].reverse().map((band) => (
+                <Bar key={band.id} dataKey={band.id} stackId="grades" fill={`var(--color-${band.id})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        ) : (
+          <p className={`text-sm ${mutedClass}`}>Enter marks to see your grades by semester.</p>
+        )}
+      </ChartCard>
+
+      <ChartCard title="Credit Load" icon={<Layers className="w-5 h-5" />} filename="credit-load" isDark={isDark}>
+        <ChartContainer config={creditConfig} className="h-64 w-full">
+          <BarChart data={series} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="name" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="passedCredits" stackId="credits" fill="var(--color-passedCredits)" />
+            <Bar dataKey="failedCredits" stackId="credits" fill="var(--color-failedCredits)" />
+            <Bar dataKey="plannedCredits" stackId="credits" fill="var(--color-plannedCredits)" />
+            <Bar dataKey="advancedStandingCredits" stackId="credits" fill="var(--color-advancedStandingCredits)" />
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+    </div>
+  )
+}
@@ -0,0 +1,326 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Copy, Plus, Trash2 } from "lucide-react"
+import type { Semester, Subject } from "@/lib/academic-engine"
+import type { GradeBand } from "@/lib/grade-bands"
+import type { AppSettings } from "@/lib/persistence"
+import {
+  createScenario,
+  loadScenarios,
+  saveScenarios,
+  summarizeSemesters,
+  type Scenario,
+  type ScenarioSummary,
+} from "@/lib/scenarios"
+import { generateUniqueId } from "@/lib/utils"
+
+interface ScenarioSandboxProps {
+  baseline: Semester[]
+  gradeBands: GradeBand[]
+  settings: AppSettings
+  storageKey: string
+  isDark: boolean
+}
+
+type ScenarioField = "code" | "creditPoints" | "mark"
+
+// Same input rules as the calculator's subject table
+function cleanFieldValue(field: ScenarioField, value: string): string {
+  if (field === "code") return value.toUpperCase().slice(0, 10)
+  if (field === "creditPoints") return value.replace(/[^0-9]/g, "").slice(0, 2)
+  const [whole, fraction] = value.replace(/[^0-9.]/g, "").split(".")
+  const mark = fraction !== undefined ? `${whole}.${fraction.slice(0, 2)}` : whole
+  return Number.parseFloat(mark) > 100 ? "100" : mark
+}
+
+const SUMMARY_ROWS: { label: string; value: (summary: ScenarioSummary) => string; delta?: (summary: ScenarioSummary) => number }[] = [
+  { label: "WAM", value: (summary) => summary.wam.toFixed(2), delta: (summary) => summary.wam },
+  { label: "CGPA", value: (summary) => summary.gpa.toFixed(2), delta: (summary) => summary.gpa },
+  { label: "Classification", value: (summary) => summary.classification.band?.name ?? "—" },
+  { label: "Credits", value: (summary) => summary.credits.toString(), delta: (summary) => summary.credits },
+  { label: "Progress", value: (summary) => `${summary.progress.toFixed(1)}%`, delta: (summary) => summary.progress },
+]
+
+export function ScenarioSandbox({ baseline, gradeBands, settings, storageKey, isDark }: ScenarioSandboxProps) {
+  const [scenarios, setScenarios] = useState<Scenario[]>([])
+  const [loadedKey, setLoadedKey] = useState<string | null>(null)
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null)
+  const [newScenarioName, setNewScenarioName] = useState("")
+
+  useEffect(() => {
+    const saved = loadScenarios(localStorage, storageKey)
+    setScenarios(saved)
+    setActiveScenarioId(saved[0]?.id ?? null)
+    setLoadedKey(storageKey)
+  }, [storageKey])
+
+  // Only save once the scenarios for this key have been loaded
+  useEffect(() => {
+    if (loadedKey !== storageKey) return
+    saveScenarios(localStorage, storageKey, scenarios)
+  }, [scenarios, loadedKey, storageKey])
+
+  // One summary per scenario per render, shared by every comparison row
+  const baselineSummary = useMemo(
+    () => summarizeSemesters(baseline, gradeBands, settings),
+    [baseline, gradeBands, settings],
+  )
+  const scenarioSummaries = useMemo(
+    () => new Map(scenarios.map((scenario) => [scenario.id, summarizeSemesters(scenario.semesters, gradeBands, settings)])),
+    [scenarios, gradeBands, settings],
+  )
+  const activeScenario = scenarios.find((scenario) => scenario.id === activeScenarioId) ?? null
+  const baselineSubjects = new Map(baseline.flatMap((semester) => semester.subjects).map((subject) => [subject.id, subject]))
+
+  const inputClass = `${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`
+  const outlineClass = isDark
+    ? "border-slate-600 text-slate-300 hover:bg-slate-700"
+    : "border-gray-300 text-gray-700 hover:bg-gray-50"
+
+  const addScenario = (semesters: Semester[], name: string) => {
+    const scenario = createScenario(name, semesters)
+    setScenarios((prev) => [...prev, scenario])
+    setActiveScenarioId(scenario.id)
+    setNewScenarioName("")
+  }
+
+  const deleteScenario = (scenarioId: string) => {
+    setScenarios((prev) => prev.filter((scenario) => scenario.id !== scenarioId))
+    if (activeScenarioId === scenarioId) setActiveScenarioId(null)
+  }
+
+  const updateScenario = (scenarioId: string, update: (scenario: Scenario) => Scenario) => {
+    setScenarios((prev) => prev.map((scenario) => (scenario.id === scenarioId ? update(scenario) : scenario)))
+  }
+
+  const updateSemesterSubjects = (scenarioId: string, semesterId: string, update: (subjects: Subject[]) => Subject[]) => {
+    updateScenario(scenarioId, (scenario) => ({
+      ...scenario,
+      semesters: scenario.semesters.map((semester) =>
+        semester.id === semesterId ? { ...semester, subjects: update(semester.subjects) } : semester,
+      ),
+    }))
+  }
+
+  const updateSubject = (semesterId: string, subjectId: string, field: ScenarioField, value: string) => {
+    if (!activeScenario) return
+    updateSemesterSubjects(activeScenario.id, semesterId, (subjects) =>
+      subjects.map((subject) => (subject.id === subjectId ? { ...subject, [field]: cleanFieldValue(field, value) } : subject)),
+    )
+  }
+
+  const addHypotheticalSemester = () => {
+    if (!activeScenario) return
+    updateScenario(activeScenario.id, (scenario) => ({
+      ...scenario,
+      semesters: [
+        ...scenario.semesters,
+        {
+          id: generateUniqueId(),
+          name: `What-if semester ${scenario.semesters.length + 1}`,
+          subjects: [{ id: generateUniqueId(), code: "", creditPoints: "", mark: "" }],
+          createdAt: new Date(),
+          // Orders have gaps once a semester is deleted, so number on from the highest
+          order: scenario.semesters.reduce((max, semester) => Math.max(max, semester.order || 0), -1) + 1,
+          isEditingName: false,
+        },
+      ],
+    }))
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Create */}
+      <div className="flex flex-wrap gap-2">
+        <Input
+          value={newScenarioName}
+          onChange={(e) => setNewScenarioName(e.target.value)}
+          placeholder="Scenario name, e.g. Strong finish"
+          maxLength={50}
+          className={`max-w-xs ${inputClass}`}
+        />
+        <Button
+          onClick={() => addScenario(baseline, newScenarioName)}
+          className={`${isDark ? "bg-cyan-600 hover:bg-cyan-700" : "bg-blue-600 hover:bg-blue-700"} text-white`}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New from My Record
+        </Button>
+        {activeScenario && (
+          <Button
+            variant="outline"
+            onClick={() => addScenario(activeScenario.semesters, newScenarioName || `${activeScenario.name} (copy)`)}
+            className={outlineClass}
+          >
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicate Selected
+          </Button>
+        )}
+      </div>
+
+      {/* Comparison */}
+      <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-slate-600">
+        <table className="w-full text-sm">
+          <thead className={`${isDark ? "bg-slate-700" : "bg-gray-100"}`}>
+            <tr>
+              <th className={`text-left p-3 font-semibold ${isDark ? "text-slate-200" : "text-gray-700"}`}></th>
+              <th className={`text-left p-3 font-semibold ${isDark ? "text-slate-200" : "text-gray-700"}`}>My Record</th>
+              {scenarios.map((scenario) => (
+                <th key={scenario.id} className="text-left p-3">
+                  <button
+                    type="button"
+                    onClick={() => setActiveScenarioId(scenario.id)}
+                    className={`font-semibold underline-offset-4 hover:underline ${
+                      scenario.id === activeScenarioId
+                        ? isDark
+                          ? "text-cyan-300"
+                          : "text-blue-600"
+                        : isDark
+                          ? "text-slate-200"
+                          : "text-gray-700"
+                    }`}
+                  >
+                    {scenario.name}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {SUMMARY_ROWS.map((row) => (
+              <tr key={row.label} className={`border-t ${isDark ? "border-slate-600" : "border-gray-200"}`}>
+                <td className={`p-3 font-medium ${isDark ? "text-slate-300" : "text-gray-600"}`}>{row.label}</td>
+                <td className={`p-3 ${isDark ? "text-slate-200" : "text-gray-800"}`}>{row.value(baselineSummary)}</td>
+                {scenarios.map((scenario) => {
+                  const summary = scenarioSummaries.get(scenario.id) ?? baselineSummary
+                  const delta = row.delta ? row.delta(summary) - row.delta(baselineSummary) : 0
+                  return (
+                    <td key={scenario.id} className={`p-3 ${isDark ? "text-slate-200" : "text-gray-800"}`}>
+                      {row.value(summary)}
+                      {Math.abs(delta) >= 0.005 && (
+                        <span
+                          className={`ml-2 text-xs ${
+                            delta > 0
+                              ? isDark
+                                ? "text-emerald-300"
+                                : "text-green-600"
+                              : isDark
+                                ? "text-orange-300"
+                                : "text-orange-600"
+                          }`}
+                        >
+                          {delta > 0 ? "+" : ""}
+                          {Number.isInteger(delta) ? delta : delta.toFixed(2)}
+                        </span>
+                      )}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {scenarios.length === 0 && (
+        <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+          Scenarios copy your record so you can try out marks and subjects without changing it.
+        </p>
+      )}
+
+      {/* Editor */}
+      {activeScenario && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={activeScenario.name}
+              onChange={(e) => updateScenario(activeScenario.id, (scenario) => ({ ...scenario, name: e.target.value }))}
+              maxLength={50}
+              className={`max-w-xs font-semibold ${inputClass}`}
+            />
+            <Button variant="outline" size="sm" onClick={addHypotheticalSemester} className={outlineClass}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Semester
+            </Button>
+            <Button variant="destructive" size="sm" onClick={() => deleteScenario(activeScenario.id)}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Scenario
+            </Button>
+          </div>
+
+          {[...activeScenario.semesters]
+            .sort((a, b) => a.order - b.order)
+            .map((semester) => (
+              <div key={semester.id} className={`p-4 rounded-lg space-y-2 ${isDark ? "bg-slate-700/50" : "bg-gray-50"}`}>
+                <div className={`font-medium ${isDark ? "text-slate-200" : "text-gray-800"}`}>{semester.name}</div>
+                {semester.subjects.map((subject) => {
+                  const original = baselineSubjects.get(subject.id)
+                  const isChanged =
+                    !original ||
+                    original.code !== subject.code ||
+                    original.creditPoints !== subject.creditPoints ||
+                    original.mark !== subject.mark
+                  return (
+                    <div key={subject.id} className="grid grid-cols-12 gap-2 items-center">
+                      <Input
+                        value={subject.code}
+                        onChange={(e) => updateSubject(semester.id, subject.id, "code", e.target.value)}
+                        placeholder="Code"
+                        className={`col-span-4 ${inputClass}`}
+                      />
+                      <Input
+                        value={subject.creditPoints}
+                        onChange={(e) => updateSubject(semester.id, subject.id, "creditPoints", e.target.value)}
+                        placeholder="CP"
+                        className={`col-span-2 ${inputClass}`}
+                      />
+                      <Input
+                        value={subject.mark}
+                        onChange={(e) => updateSubject(semester.id, subject.id, "mark", e.target.value)}
+                        placeholder={subject.kind === "credit" ? "Credit" : "Mark"}
+                        disabled={subject.kind === "credit"}
+                        className={`col-span-3 ${inputClass}`}
+                      />
+                      <div className="col-span-2">
+                        {isChanged && <Badge variant="secondary">{original ? "Changed" : "Added"}</Badge>}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          updateSemesterSubjects(activeScenario.id, semester.id, (subjects) =>
+                            subjects.filter((s) => s.id !== subject.id),
+                          )
+                        }
+                        className={`col-span-1 ${isDark ? "text-slate-400 hover:bg-slate-600" : "text-gray-500 hover:bg-gray-200"}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )
+                })}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    updateSemesterSubjects(activeScenario.id, semester.id, (subjects) => [
+                      ...subjects,
+                      { id: generateUniqueId(), code: "", creditPoints: "", mark: "" },
+                    ])
+                  }
+                  className={outlineClass}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Subject
+                </Button>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  )
+}
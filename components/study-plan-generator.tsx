@@ -0,0 +1,155 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { CalendarPlus, Wand2 } from "lucide-react"
+import type { Semester } from "@/lib/academic-engine"
+import type { DegreeDefinition } from "@/lib/degree-requirements"
+import type { GradeBand } from "@/lib/grade-bands"
+import { buildStudyPlan, toDraftSemesters, type StudyPlan } from "@/lib/study-planner"
+
+interface StudyPlanGeneratorProps {
+  semesters: Semester[]
+  gradeBands: GradeBand[]
+  totalCreditsRequired: number
+  creditsPerSemester: number
+  degree: DegreeDefinition | null
+  onAccept: (drafts: Semester[]) => void
+  isDark: boolean
+}
+
+const SESSION_CHOICES = [
+  { id: "main", label: "Autumn and Spring", sessions: ["Autumn", "Spring"] },
+  { id: "all", label: "All sessions (with Summer and Winter)", sessions: ["Summer", "Autumn", "Winter", "Spring"] },
+]
+
+export function StudyPlanGenerator({
+  semesters,
+  gradeBands,
+  totalCreditsRequired,
+  creditsPerSemester,
+  degree,
+  onAccept,
+  isDark,
+}: StudyPlanGeneratorProps) {
+  const [sessionChoice, setSessionChoice] = useState("main")
+  const [plan, setPlan] = useState<StudyPlan | null>(null)
+
+  const generatePlan = () => {
+    const sessions = SESSION_CHOICES.find((choice) => choice.id === sessionChoice)!.sessions
+    setPlan(buildStudyPlan(semesters, gradeBands, { totalCreditsRequired, creditsPerSemester, sessions, degree }))
+  }
+
+  const acceptPlan = () => {
+    if (!plan) return
+    const maxOrder = semesters.reduce((max, semester) => Math.max(max, semester.order || 0), -1)
+    onAccept(toDraftSemesters(plan, maxOrder + 1))
+    setPlan(null)
+  }
+
+  const outlineClass = isDark
+    ? "border-slate-600 text-slate-300 hover:bg-slate-700"
+    : "border-gray-300 text-gray-700 hover:bg-gray-50"
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className={`text-lg font-semibold ${isDark ? "text-slate-200" : "text-gray-800"}`}>Study Plan</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={sessionChoice}
+            onChange={(e) => setSessionChoice(e.target.value)}
+            className={`h-9 rounded-md border px-2 text-sm ${isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"}`}
+          >
+            {SESSION_CHOICES.map((choice) => (
+              <option key={choice.id} value={choice.id}>
+                {choice.label}
+              </option>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" onClick={generatePlan} className={outlineClass}>
+            <Wand2 className="w-4 h-4 mr-2" />
+            Generate Plan
+          </Button>
+        </div>
+      </div>
+
+      {!plan ? (
+        <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+          Lays out the semesters to graduation at {creditsPerSemester} credits per semester
+          {degree ? `, placing the outstanding subjects of ${degree.name} after their prerequisites` : ""}.
+        </p>
+      ) : plan.semesters.length === 0 ? (
+        <p className={`text-sm ${isDark ? "text-slate-400" : "text-gray-500"}`}>
+          Nothing left to plan: your current and completed subjects already reach {totalCreditsRequired} credits.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {plan.semesters.map((semester) => (
+              <div
+                key={`${semester.year}-${semester.session}`}
+                className={`p-3 rounded-lg ${isDark ? "bg-slate-700/50" : "bg-gray-50"}`}
+              >
+                <div className={`font-medium mb-2 ${isDark ? "text-slate-200" : "text-gray-800"}`}>
+                  {semester.year} {semester.session}
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {semester.subjects.map((subject, index) => (
+                    <li key={`${subject.code}-${index}`} className="flex justify-between gap-2">
+                      <span
+                        className={
+                          subject.code
+                            ? isDark
+                              ? "text-slate-300"
+                              : "text-gray-700"
+                            : isDark
+                              ? "text-slate-500"
+                              : "text-gray-400"
+                        }
+                      >
+                        {subject.code ? `${subject.code} ${subject.title}` : "Elective (to choose)"}
+                      </span>
+                      <span className={`${isDark ? "text-slate-400" : "text-gray-500"}`}>{subject.creditPoints} CP</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          {plan.unscheduled.length > 0 && (
+            <Alert className={`${isDark ? "bg-slate-700/50 border-orange-500/50" : "bg-orange-50 border-orange-200"}`}>
+              <AlertDescription className={`${isDark ? "text-orange-200" : "text-orange-800"}`}>
+                <strong>Could not be placed:</strong>
+                <ul className="list-disc list-inside">
+                  {plan.unscheduled.map((subject) => (
+                    <li key={subject.code}>
+                      {subject.code}: {subject.reason}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <Badge variant="secondary">
+              {plan.semesters.length} semesters · {plan.projectedCredits} credits projected
+            </Badge>
+            <Button
+              size="sm"
+              onClick={acceptPlan}
+              className={`${isDark ? "bg-cyan-600 hover:bg-cyan-700" : "bg-blue-600 hover:bg-blue-700"} text-white`}
+            >
+              <CalendarPlus className="w-4 h-4 mr-2" />
+              Add to My Record
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { ChevronsUpDown, Check, AlertTriangle, X } from "lucide-react"
+import { findCatalogueEntry, searchCatalogue, type CatalogueEntry } from "@/lib/subject-catalogue"
+
+interface SubjectCodeComboboxProps {
+  value: string
+  onChange: (code: string) => void
+  onSelectEntry: (entry: CatalogueEntry) => void
+  isDark: boolean
+}
+
+export function SubjectCodeCombobox({ value, onChange, onSelectEntry, isDark }: SubjectCodeComboboxProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [query, setQuery] = useState("")
+
+  const matches = searchCatalogue(query)
+  const normalizedQuery = query.trim().toUpperCase()
+  const isUnknown = value.trim() !== "" && !findCatalogueEntry(value)
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setQuery(value)
+    setIsOpen(open)
+  }
+
+  // Codes that are not in the catalogue can still be used as typed
+  const handleUseTyped = () => {
+    onChange(normalizedQuery)
+    setIsOpen(false)
+  }
+
+  const handleClear = () => {
+    onChange("")
+    setIsOpen(false)
+  }
+
+  return (
+    <div className="space-y-1">
+      <Popover open={isOpen} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={isOpen}
+            className={`w-full justify-between font-normal ${isDark ? "bg-slate-800 border-slate-600 text-slate-100 hover:bg-slate-700" : "bg-white border-gray-300"} ${
+              isUnknown ? (isDark ? "border-amber-500/60" : "border-amber-400") : ""
+            }`}
+          >
+            <span className={value ? "" : isDark ? "text-slate-500" : "text-gray-400"}>{value || "e.g., ACCY101"}</span>
+            <ChevronsUpDown className="w-4 h-4 ml-2 opacity-50 shrink-0" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-80" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={query}
+              onValueChange={(text) => setQuery(text.toUpperCase().slice(0, 10))}
+              placeholder="Search code or title..."
+            />
+            <CommandList>
+              <CommandEmpty>No catalogue subject matches.</CommandEmpty>
+              {normalizedQuery && !findCatalogueEntry(normalizedQuery) && (
+                <CommandGroup>
+                  <CommandItem value={`typed-${normalizedQuery}`} onSelect={handleUseTyped}>
+                    Use &quot;{normalizedQuery}&quot; (not in catalogue)
+                  </CommandItem>
+                </CommandGroup>
+              )}
+              {matches.length > 0 && (
+                <CommandGroup heading="Catalogue">
+                  {matches.map((entry) => (
+                    <CommandItem
+                      key={entry.code}
+                      value={entry.code}
+                      onSelect={() => {
+                        onSelectEntry(entry)
+                        setIsOpen(false)
+                      }}
+                    >
+                      <Check className={`w-4 h-4 ${entry.code === value ? "opacity-100" : "opacity-0"}`} />
+                      <div className="flex-1">
+                        <div className="font-medium">{entry.code}</div>
+                        <div className="text-xs text-muted-foreground">{entry.title}</div>
+                      </div>
+                      <span className="text-xs text-muted-foreground">{entry.creditPoints} CP</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {value && (
+                <CommandGroup>
+                  <CommandItem value="clear-code" onSelect={handleClear}>
+                    <X className="w-4 h-4" />
+                    Clear subject code
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {isUnknown && (
+        <p className={`flex items-center gap-1 text-xs ${isDark ? "text-amber-300" : "text-amber-700"}`}>
+          <AlertTriangle className="w-3 h-3" />
+          Not in the catalogue
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { formatScore, type Subject } from "@/lib/academic-engine"
+import { getGradeColorClass, type GradeBand } from "@/lib/grade-bands"
+import { analyzeSubjectImpact, getTopImprovements, type SubjectImpact } from "@/lib/subject-impact"
+
+interface SubjectImpactTableProps {
+  subjects: Subject[]
+  gradeBands: GradeBand[]
+  isDark: boolean
+}
+
+type SortOrder = "drag" | "gain" | "code"
+
+const SORT_ORDERS: { id: SortOrder; label: string; compare: (a: SubjectImpact, b: SubjectImpact) => number }[] = [
+  { id: "drag", label: "Biggest drag first", compare: (a, b) => a.contribution - b.contribution },
+  { id: "gain", label: "Biggest gain first", compare: (a, b) => (b.improvementGain ?? -1) - (a.improvementGain ?? -1) },
+  { id: "code", label: "Subject code", compare: (a, b) => a.code.localeCompare(b.code) },
+]
+
+const formatSigned = (value: number) => `${value >= 0 ? "+" : "−"}${formatScore(Math.abs(value))}`
+
+export function SubjectImpactTable({ subjects, gradeBands, isDark }: SubjectImpactTableProps) {
+  const [sortOrder, setSortOrder] = useState<SortOrder>("drag")
+
+  const { wam, impacts } = analyzeSubjectImpact(subjects, gradeBands)
+  const topImprovements = getTopImprovements(impacts)
+  const topIds = new Set(topImprovements.map((impact) => impact.id))
+  const compare = SORT_ORDERS.find((order) => order.id === sortOrder)?.compare ?? SORT_ORDERS[0].compare
+  const sorted = [...impacts].sort(compare)
+
+  const headerClass = `text-left p-3 font-semibold ${isDark ? "text-slate-200" : "text-gray-700"}`
+  const cellClass = `p-3 ${isDark ? "text-slate-200" : "text-gray-800"}`
+  const mutedClass = isDark ? "text-slate-400" : "text-gray-500"
+
+  if (impacts.length === 0) {
+    return <p className={`text-sm ${mutedClass}`}>Enter marks in the calculator to see how each subject affects your WAM.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {topImprovements.length > 0 && (
+        <div className={`p-3 rounded-lg text-sm ${isDark ? "bg-slate-700/50 text-slate-200" : "bg-blue-50 text-blue-800"}`}>
+          Best improvements:{" "}
+          {topImprovements
+            .map(
+              (impact) =>
+                `${impact.code} to ${impact.nextBand?.grade} (${formatSigned(impact.improvementGain ?? 0)} WAM)`,
+            )
+            .join(", ")}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className={`text-sm ${mutedClass}`}>
+          Overall WAM {formatScore(wam)}. Improvements assume the new mark replaces the old one.
+        </p>
+        <select
+          value={sortOrder}
+          onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+          className={`h-9 rounded-md border px-2 text-sm ${
+            isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"
+          }`}
+        >
+          {SORT_ORDERS.map((order) => (
+            <option key={order.id} value={order.id}>
+              {order.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-slate-600">
+        <table className="w-full text-sm">
+          <thead className={`${isDark ? "bg-slate-700" : "bg-gray-100"}`}>
+            <tr>
+              <th className={headerClass}>Subject</th>
+              <th className={headerClass}>Credits</th>
+              <th className={headerClass}>Mark</th>
+              <th className={headerClass}>Contribution</th>
+              <th className={headerClass}>WAM without it</th>
+              <th className={headerClass}>WAM at next grade</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((impact) => (
+              <tr
+                key={impact.id}
+                className={`border-t ${isDark ? "border-slate-600" : "border-gray-200"} ${
+                  topIds.has(impact.id) ? (isDark ? "bg-emerald-900/20" : "bg-green-50") : ""
+                }`}
+              >
+                <td className={`${cellClass} font-medium`}>
+                  {impact.code}
+                  {topIds.has(impact.id) && (
+                    <Badge
+                      variant="secondary"
+                      className={`ml-2 ${isDark ? "bg-emerald-800 text-emerald-100" : "bg-green-100 text-green-800"}`}
+                    >
+                      Top gain
+                    </Badge>
+                  )}
+                </td>
+                <td className={cellClass}>{impact.creditPoints}</td>
+                <td className={cellClass}>
+                  {impact.mark} <span className={getGradeColorClass(impact.grade, gradeBands)}>{impact.grade}</span>
+                </td>
+                <td
+                  className={`p-3 font-semibold ${
+                    impact.contribution >= 0
+                      ? isDark
+                        ? "text-emerald-300"
+                        : "text-green-600"
+                      : isDark
+                        ? "text-orange-300"
+                        : "text-orange-600"
+                  }`}
+                >
+                  {formatSigned(impact.contribution)}
+                </td>
+                <td className={cellClass}>{impact.wamWithout !== null ? formatScore(impact.wamWithout) : "—"}</td>
+                <td className={cellClass}>
+                  {impact.wamIfImproved !== null && impact.nextBand ? (
+                    <>
+                      {formatScore(impact.wamIfImproved)}{" "}
+                      <span className={`text-xs ${mutedClass}`}>
+                        ({impact.nextBand.grade} at {impact.nextBand.minMark})
+                      </span>
+                    </>
+                  ) : (
+                    <span className={mutedClass}>Top band</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+"use client"
+
+import { useState } from "react"
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Progress } from "@/components/ui/progress"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Dices } from "lucide-react"
+import { parseCreditPoints, type Subject } from "@/lib/academic-engine"
+import type { ClassificationScheme } from "@/lib/classification"
+import {
+  deriveMarkRange,
+  isValidMarkRange,
+  runForecast,
+  type ForecastResult,
+  type MarkRange,
+  type RangeBasis,
+} from "@/lib/forecast"
+
+interface ForecastInputSubject {
+  id: string
+  code: string
+  creditPoints: string
+  semesterName?: string
+}
+
+interface WAMForecastProps {
+  subjects: ForecastInputSubject[]
+  history: Subject[]
+  scheme: ClassificationScheme
+  isDark: boolean
+}
+
+type RangeInput = Record<keyof MarkRange, string>
+
+const BASIS_LABELS: Record<RangeBasis, string> = {
+  "discipline-level": "from your marks in this discipline and level",
+  level: "from your marks at this level",
+  all: "from all your marks",
+  default: "default range (no marks yet)",
+}
+
+const RANGE_FIELDS: { field: keyof MarkRange; label: string }[] = [
+  { field: "low", label: "Low" },
+  { field: "expected", label: "Expected" },
+  { field: "high", label: "High" },
+]
+
+const chartConfig = {
+  middle: { label: "25th–75th percentile", color: "hsl(var(--chart-2))" },
+  outer: { label: "5th–95th percentile", color: "hsl(var(--chart-2))" },
+  median: { label: "Median", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig
+
+const roundWAM = (wam: number) => Math.round(wam * 100) / 100
+
+export function WAMForecast({ subjects, history, scheme, isDark }: WAMForecastProps) {
+  const [rangeInputs, setRangeInputs] = useState<Record<string, RangeInput>>({})
+  const [result, setResult] = useState<ForecastResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const inputClass = isDark ? "bg-slate-700 border-slate-600 text-slate-100" : "bg-white border-gray-300"
+  const mutedClass = isDark ? "text-slate-400" : "text-gray-500"
+
+  // Blank inputs fall back to the range derived from the student's history
+  const resolveRange = (subject: ForecastInputSubject): MarkRange => {
+    const { range } = deriveMarkRange(subject.code, history)
+    const input = rangeInputs[subject.id]
+    const pick = (field: keyof MarkRange) => {
+      const value = Number.parseFloat(input?.[field] ?? "")
+      return isNaN(value) ? range[field] : value
+    }
+    return { low: pick("low"), expected: pick("expected"), high: pick("high") }
+  }
+
+  const updateRange = (subjectId: string, field: keyof MarkRange, value: string) => {
+    setRangeInputs((prev) => ({
+      ...prev,
+      [subjectId]: { ...(prev[subjectId] ?? { low: "", expected: "", high: "" }), [field]: value },
+    }))
+  }
+
+  const handleRun = () => {
+    const upcoming = subjects.map((subject) => ({
+      id: subject.id,
+      code: subject.code,
+      creditPoints: parseCreditPoints(subject.creditPoints) ?? 0,
+      range: resolveRange(subject),
+      group: subject.semesterName ?? "Upcoming",
+    }))
+
+    if (upcoming.some((subject) => subject.creditPoints === 0)) {
+      setError("Please enter valid credit points for your subjects.")
+      return
+    }
+    const invalid = upcoming.find((subject) => !isValidMarkRange(subject.range))
+    if (invalid) {
+      setError(`${invalid.code || "A subject"} needs low ≤ expected ≤ high, all between 0 and 100.`)
+      return
+    }
+
+    setError(null)
+    setResult(runForecast(history, upcoming, scheme))
+  }
+
+  const chartData = result?.steps.map((step) => ({
+    label: step.label,
+    outer: [roundWAM(step.p5), roundWAM(step.p95)],
+    middle: [roundWAM(step.p25), roundWAM(step.p75)],
+    median: roundWAM(step.p50),
+  }))
+
+  if (subjects.length === 0) {
+    return <p className={`text-sm ${mutedClass}`}>Add upcoming subjects above to forecast your final WAM.</p>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {subjects.map((subject) => {
+          const { range, basis } = deriveMarkRange(subject.code, history)
+          return (
+            <div key={subject.id} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <div className={`font-medium ${isDark ? "text-slate-200" : "text-gray-800"}`}>
+                  {subject.code || "Unnamed subject"}
+                </div>
+                <div className={`text-xs ${mutedClass}`}>{BASIS_LABELS[basis]}</div>
+              </div>
+              {RANGE_FIELDS.map(({ field, label }) => (
+                <label key={field} className={`text-xs ${isDark ? "text-slate-300" : "text-gray-600"}`}>
+                  {label}
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={rangeInputs[subject.id]?.[field] ?? ""}
+                    onChange={(e) => updateRange(subject.id, field, e.target.value)}
+                    placeholder={range[field].toString()}
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+
+      <Button
+        onClick={handleRun}
+        className={`${isDark ? "bg-emerald-600 hover:bg-emerald-700" : "bg-green-600 hover:bg-green-700"} text-white`}
+      >
+        <Dices className="w-4 h-4 mr-2" />
+        Run Forecast
+      </Button>
+
+      {error && (
+        <Alert className="border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+          <AlertDescription className="text-red-800 dark:text-red-200">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && chartData && (
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <h3 className={`text-lg font-semibold ${isDark ? "text-slate-200" : "text-gray-800"}`}>
+              Classification Chances
+            </h3>
+            {result.bandProbabilities.map((band) => (
+              <div key={band.bandId} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className={isDark ? "text-slate-300" : "text-gray-700"}>{band.name} or better</span>
+                  <span className={`font-semibold ${isDark ? "text-slate-200" : "text-gray-800"}`}>
+                    {(band.probability * 100).toFixed(1)}%
+                  </span>
+                </div>
+                <Progress value={band.probability * 100} className="w-full" />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className={`text-lg font-semibold ${isDark ? "text-slate-200" : "text-gray-800"}`}>Cumulative WAM Range</h3>
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <ComposedChart data={chartData} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis domain={["auto", "auto"]} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value, name) => (
+                        <div className="flex w-full justify-between gap-4">
+                          <span className="text-muted-foreground">
+                            {chartConfig[name as keyof typeof chartConfig]?.label ?? name}
+                          </span>
+                          <span className="font-mono font-medium tabular-nums">
+                            {Array.isArray(value) ? `${value[0]}–${value[1]}` : value}
+                          </span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                <Area dataKey="outer" stroke="none" fill="var(--color-outer)" fillOpacity={0.15} />
+                <Area dataKey="middle" stroke="none" fill="var(--color-middle)" fillOpacity={0.35} />
+                <Line dataKey="median" stroke="var(--color-median)" strokeWidth={2} dot />
+              </ComposedChart>
+            </ChartContainer>
+            <p className={`text-xs ${mutedClass}`}>
+              Shaded areas cover the middle 50% and 90% of {result.runs.toLocaleString()} simulated outcomes.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import * as React from "react"
+
+const DEFAULT_HISTORY_LIMIT = 50
+
+// A value in the history, tagged with the change that produced it
+interface Entry<T> {
+  value: T
+  revision: number
+}
+
+interface History<T> {
+  past: Entry<T>[]
+  present: Entry<T>
+  future: Entry<T>[]
+  // Key of the last change, so a run of keystrokes in one field is one undo step
+  lastKey: string | null
+}
+
+export interface SetOptions {
+  coalesceKey?: string
+}
+
+// useState with a bounded undo/redo history
+export function useUndoableState<T>(initialValue: T, limit = DEFAULT_HISTORY_LIMIT) {
+  const nextRevision = React.useRef(1)
+  const [history, setHistory] = React.useState<History<T>>({
+    past: [],
+    present: { value: initialValue, revision: 0 },
+    future: [],
+    lastKey: null,
+  })
+
+  // Returns the revision of the change, which undoChange can later target
+  const set = React.useCallback(
+    (action: React.SetStateAction<T>, options: SetOptions = {}) => {
+      const revision = nextRevision.current++
+      setHistory((prev) => {
+        const next = typeof action === "function" ? (action as (prevState: T) => T)(prev.present.value) : action
+        if (Object.is(next, prev.present.value)) return prev
+
+        const coalesceKey = options.coalesceKey ?? null
+        if (coalesceKey !== null && coalesceKey === prev.lastKey) {
+          return { ...prev, present: { value: next, revision }, future: [] }
+        }
+
+        return {
+          past: [...prev.past, prev.present].slice(-limit),
+          present: { value: next, revision },
+          future: [],
+          lastKey: coalesceKey,
+        }
+      })
+      return revision
+    },
+    [limit],
+  )
+
+  // Replace the value and forget the history, e.g. after loading saved data
+  const reset = React.useCallback((value: T) => {
+    setHistory({ past: [], present: { value, revision: nextRevision.current++ }, future: [], lastKey: null })
+  }, [])
+
+  const undo = React.useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0) return prev
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        lastKey: null,
+      }
+    })
+  }, [])
+
+  // Undo one particular change, e.g. from a toast shown when it was made. Later
+  // changes are stepped back over too and stay available to redo. Does nothing
+  // once the change has already been undone or has left the history.
+  const undoChange = React.useCallback((revision: number) => {
+    setHistory((prev) => {
+      const entries = [...prev.past, prev.present]
+      const index = entries.findIndex((entry) => entry.revision === revision)
+      if (index <= 0) return prev
+      return {
+        past: entries.slice(0, index - 1),
+        present: entries[index - 1],
+        future: [...entries.slice(index), ...prev.future],
+        lastKey: null,
+      }
+    })
+  }, [])
+
+  const redo = React.useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0) return prev
+      return {
+        past: [...prev.past, prev.present].slice(-limit),
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        lastKey: null,
+      }
+    })
+  }, [limit])
+
+  return {
+    state: history.present.value,
+    set,
+    reset,
+    undo,
+    undoChange,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCreditsCompleted, calculateGPA, calculateWAM, type Subject } from './academic-engine';
+import { DEFAULT_GRADE_BANDS } from './grade-bands';
+
+let nextId = 0;
+const subject = (code: string, creditPoints: string, mark: string, overrides: Partial<Subject> = {}): Subject => ({
+  id: `subject-${nextId++}`,
+  code,
+  creditPoints,
+  mark,
+  ...overrides,
+});
+
+describe('calculateWAM', () => {
+  it('weights marks by credit points', () => {
+    expect(calculateWAM([subject('CSIT111', '6', '80'), subject('CSIT113', '12', '65')])).toBeCloseTo(70);
+  });
+
+  it('includes failed subjects', () => {
+    expect(calculateWAM([subject('CSIT111', '6', '90'), subject('CSIT113', '6', '30')])).toBeCloseTo(60);
+  });
+
+  it('counts every attempt of a repeated subject', () => {
+    expect(calculateWAM([subject('CSIT111', '6', '40'), subject('csit111', '6', '70')])).toBeCloseTo(55);
+  });
+
+  it('skips planned, credit-only and incomplete subjects', () => {
+    const subjects = [
+      subject('CSIT111', '6', '75'),
+      subject('CSIT113', '6', ''),
+      subject('CSIT114', '6', '', { kind: 'credit' }),
+      subject('', '6', '90'),
+      subject('CSIT121', '', '90'),
+      subject('CSIT127', '6', '101'),
+    ];
+    expect(calculateWAM(subjects)).toBeCloseTo(75);
+  });
+
+  it('is 0 without graded subjects', () => {
+    expect(calculateWAM([])).toBe(0);
+    expect(calculateWAM([subject('CSIT111', '6', '')])).toBe(0);
+  });
+});
+
+describe('calculateGPA', () => {
+  it('weights grade points by credit points', () => {
+    // HD (4) over 6 credits and P (2) over 12 credits
+    expect(calculateGPA([subject('CSIT111', '6', '90'), subject('CSIT113', '12', '55')], DEFAULT_GRADE_BANDS)).toBeCloseTo(
+      (6 * 4 + 12 * 2) / 18,
+    );
+  });
+
+  it('counts failed subjects as zero grade points', () => {
+    expect(calculateGPA([subject('CSIT111', '6', '80'), subject('CSIT113', '6', '49')], DEFAULT_GRADE_BANDS)).toBeCloseTo(
+      3.7 / 2,
+    );
+  });
+
+  it('counts every attempt of a repeated subject', () => {
+    expect(calculateGPA([subject('CSIT111', '6', '20'), subject('CSIT111', '6', '66')], DEFAULT_GRADE_BANDS)).toBeCloseTo(
+      3.3 / 2,
+    );
+  });
+
+  it('skips marks that fall in no grade band', () => {
+    const bands = DEFAULT_GRADE_BANDS.filter((band) => !band.isFail);
+    expect(calculateGPA([subject('CSIT111', '6', '90'), subject('CSIT113', '6', '30')], bands)).toBeCloseTo(4);
+  });
+
+  it('is 0 without graded subjects', () => {
+    expect(calculateGPA([], DEFAULT_GRADE_BANDS)).toBe(0);
+  });
+});
+
+describe('calculateCreditsCompleted', () => {
+  it('adds up credit points of passed subjects only', () => {
+    const subjects = [subject('CSIT111', '6', '50'), subject('CSIT113', '12', '49'), subject('CSIT114', '6', '10')];
+    expect(calculateCreditsCompleted(subjects, DEFAULT_GRADE_BANDS)).toBe(6);
+  });
+
+  it('earns the credit points of a subject passed more than once only once', () => {
+    const subjects = [subject('CSIT111', '6', '55'), subject(' csit111 ', '6', '70'), subject('CSIT113', '6', '65')];
+    expect(calculateCreditsCompleted(subjects, DEFAULT_GRADE_BANDS)).toBe(12);
+  });
+
+  it('counts a failed then passed subject once', () => {
+    const subjects = [subject('CSIT111', '6', '30'), subject('CSIT111', '6', '60')];
+    expect(calculateCreditsCompleted(subjects, DEFAULT_GRADE_BANDS)).toBe(6);
+  });
+
+  it('includes advanced standing but not planned subjects', () => {
+    const subjects = [
+      subject('CSIT111', '6', '80'),
+      subject('CSIT113', '6', '', { kind: 'credit', creditSource: 'TAFE NSW' }),
+      subject('CSIT114', '6', ''),
+    ];
+    expect(calculateCreditsCompleted(subjects, DEFAULT_GRADE_BANDS)).toBe(12);
+  });
+});
@@ -0,0 +1,193 @@
+// Academic calculation engine
+// Pure WAM / GPA / credit calculations shared by the calculator, the advanced
+// page and the enrollment record importer so every screen agrees on the numbers.
+
+import type { Assessment } from './assessments';
+import { getBandForMark, sortGradeBands, type GradeBand } from './grade-bands';
+
+// 'credit' is advanced standing / transfer credit: it earns credit points
+// towards graduation but has no mark and never counts towards WAM or GPA
+export type SubjectKind = 'standard' | 'credit';
+
+export interface Subject {
+  id: string;
+  code: string;
+  creditPoints: string;
+  mark: string;
+  kind?: SubjectKind;
+  // Institution the credit was recognised from, for credit-only subjects
+  creditSource?: string;
+  // Optional breakdown that rolls up to the mark once every assessment is scored
+  assessments?: Assessment[];
+}
+
+export interface Semester {
+  id: string;
+  name: string;
+  subjects: Subject[];
+  createdAt: Date;
+  order: number;
+  isEditingName: boolean;
+  // Set for semesters that came from an enrollment record
+  year?: string;
+  session?: string;
+}
+
+// A subject reduced to the numbers the calculations need
+export interface GradedSubject {
+  code: string;
+  creditPoints: number;
+  mark: number;
+  grade: string;
+  gradePoint: number | null;
+  isFail: boolean;
+}
+
+// The calculator holds at most this many subjects in one semester
+export const MAX_SUBJECTS_PER_SEMESTER = 8;
+
+// Parse a mark, returning null when it is missing or outside 0-100
+export function parseMark(mark: string | number): number | null {
+  const value = typeof mark === 'number' ? mark : Number.parseFloat(mark);
+  if (isNaN(value) || value < 0 || value > 100) return null;
+  return value;
+}
+
+// Parse credit points, returning null when missing or not positive
+export function parseCreditPoints(creditPoints: string | number): number | null {
+  const value = typeof creditPoints === 'number' ? creditPoints : Number.parseFloat(creditPoints);
+  if (isNaN(value) || value <= 0) return null;
+  return value;
+}
+
+// Get the grade for a mark, or an empty string when there is no valid mark
+export function getGradeFromMark(mark: string | number, bands: GradeBand[]): string {
+  const value = parseMark(mark);
+  if (value === null) return '';
+  return getBandForMark(value, bands)?.grade ?? '';
+}
+
+export function isCreditOnlySubject(subject: Subject): boolean {
+  return subject.kind === 'credit';
+}
+
+// A subject counts towards WAM/GPA once it has a code, credit points and a mark
+export function toGradedSubject(subject: Subject, bands: GradeBand[]): GradedSubject | null {
+  if (isCreditOnlySubject(subject)) return null;
+  const creditPoints = parseCreditPoints(subject.creditPoints);
+  const mark = parseMark(subject.mark);
+  if (!subject.code.trim() || creditPoints === null || mark === null) return null;
+
+  const band = getBandForMark(mark, bands);
+  return {
+    code: subject.code.trim(),
+    creditPoints,
+    mark,
+    grade: band?.grade ?? '',
+    gradePoint: band ? band.gradePoint : null,
+    isFail: band?.isFail ?? false,
+  };
+}
+
+export function getGradedSubjects(subjects: Subject[], bands: GradeBand[]): GradedSubject[] {
+  return subjects
+    .map((subject) => toGradedSubject(subject, bands))
+    .filter((subject): subject is GradedSubject => subject !== null);
+}
+
+// A planned or in-progress subject: enrolled with credit points but not yet marked.
+// These stay out of WAM/GPA until a mark is entered.
+export function isPlannedSubject(subject: Subject): boolean {
+  return !isCreditOnlySubject(subject) && subject.code.trim() !== '' && parseCreditPoints(subject.creditPoints) !== null && subject.mark.trim() === '';
+}
+
+export function getPlannedSubjects(subjects: Subject[]): Subject[] {
+  return subjects.filter(isPlannedSubject);
+}
+
+// Flatten semesters into a single subject list, in semester order
+export function getAllSubjects(semesters: Semester[]): Subject[] {
+  return [...semesters].sort((a, b) => a.order - b.order).flatMap((semester) => semester.subjects);
+}
+
+// The two sums behind the WAM; failed subjects are included in both
+export function getWAMTotals(subjects: Subject[]): { credits: number; weightedMarks: number } {
+  const graded = getGradedSubjects(subjects, []);
+  return {
+    credits: graded.reduce((sum, subject) => sum + subject.creditPoints, 0),
+    weightedMarks: graded.reduce((sum, subject) => sum + subject.creditPoints * subject.mark, 0),
+  };
+}
+
+// WAM = sum(credit points × mark) ÷ sum(credit points), failed subjects included
+export function calculateWAM(subjects: Subject[]): number {
+  const { credits, weightedMarks } = getWAMTotals(subjects);
+  return credits > 0 ? weightedMarks / credits : 0;
+}
+
+// GPA = sum(credit points × grade point) ÷ sum(credit points)
+export function calculateGPA(subjects: Subject[], bands: GradeBand[]): number {
+  let totalCredits = 0;
+  let totalWeightedGradePoints = 0;
+
+  getGradedSubjects(subjects, bands).forEach((subject) => {
+    if (subject.gradePoint === null) return;
+    totalCredits += subject.creditPoints;
+    totalWeightedGradePoints += subject.creditPoints * subject.gradePoint;
+  });
+
+  return totalCredits > 0 ? totalWeightedGradePoints / totalCredits : 0;
+}
+
+// Credit points recognised through advanced standing
+export function calculateAdvancedStandingCredits(subjects: Subject[]): number {
+  return subjects
+    .filter((subject) => isCreditOnlySubject(subject) && subject.code.trim())
+    .reduce((sum, subject) => sum + (parseCreditPoints(subject.creditPoints) ?? 0), 0);
+}
+
+// Credits earned from passed subjects and advanced standing.
+// A subject passed more than once only earns its credit points once.
+export function calculateCreditsCompleted(subjects: Subject[], bands: GradeBand[]): number {
+  const passedCodes = new Set<string>();
+  const passedCredits = getGradedSubjects(subjects, bands)
+    .filter((subject) => !subject.isFail)
+    .filter((subject) => {
+      const code = subject.code.toUpperCase();
+      if (passedCodes.has(code)) return false;
+      passedCodes.add(code);
+      return true;
+    })
+    .reduce((sum, subject) => sum + subject.creditPoints, 0);
+  return passedCredits + calculateAdvancedStandingCredits(subjects);
+}
+
+export function countGradedSubjects(subjects: Subject[]): number {
+  return getGradedSubjects(subjects, []).length;
+}
+
+// Count of graded subjects per grade, highest band first
+export function getGradeDistribution(
+  subjects: Subject[],
+  bands: GradeBand[],
+): {
+  distribution: Record<string, number>;
+  total: number;
+} {
+  const distribution: Record<string, number> = {};
+  sortGradeBands(bands).forEach((band) => {
+    distribution[band.grade] = 0;
+  });
+
+  const graded = getGradedSubjects(subjects, bands).filter((subject) => subject.grade);
+  graded.forEach((subject) => {
+    distribution[subject.grade]++;
+  });
+
+  return { distribution, total: graded.length };
+}
+
+// Format a WAM or GPA for display
+export function formatScore(value: number): string {
+  return value.toFixed(2);
+}
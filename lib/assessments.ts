@@ -0,0 +1,83 @@
+// Assessment breakdowns
+// A subject can optionally list its assessments (assignments, mid-session
+// exam, final exam) with a weight and a score, both as percentages. Scored
+// assessments give a running mark; once every weight is scored they roll up
+// to the subject's final mark.
+
+import { parseMark, type Subject } from './academic-engine';
+
+export interface Assessment {
+  id: string;
+  name: string;
+  // Share of the subject mark, as the strings the inputs hold
+  weight: string;
+  // Score out of 100; empty until marked
+  score: string;
+}
+
+export interface AssessmentProgress {
+  totalWeight: number;
+  scoredWeight: number;
+  // Weighted marks earned so far, out of 100
+  earned: number;
+  // Average score over the scored weight, or null when nothing is scored
+  runningMark: number | null;
+  // Every assessment is scored and the weights add up to 100
+  isComplete: boolean;
+}
+
+const roundMark = (mark: number) => Math.round(mark * 100) / 100;
+
+const parseWeight = (weight: string) => {
+  const value = Number.parseFloat(weight);
+  return isNaN(value) || value < 0 ? 0 : value;
+};
+
+export function getAssessmentProgress(assessments: Assessment[]): AssessmentProgress {
+  let totalWeight = 0;
+  let scoredWeight = 0;
+  let earned = 0;
+
+  assessments.forEach((assessment) => {
+    const weight = parseWeight(assessment.weight);
+    const score = parseMark(assessment.score);
+    totalWeight += weight;
+    if (score === null) return;
+    scoredWeight += weight;
+    earned += (weight * score) / 100;
+  });
+
+  return {
+    totalWeight,
+    scoredWeight,
+    earned,
+    runningMark: scoredWeight > 0 ? roundMark((earned / scoredWeight) * 100) : null,
+    isComplete: assessments.length > 0 && Math.abs(totalWeight - 100) < 0.01 && scoredWeight === totalWeight,
+  };
+}
+
+// The subject mark the assessments roll up to, once all of them are scored
+export function getAssessmentMark(assessments: Assessment[]): number | null {
+  const progress = getAssessmentProgress(assessments);
+  return progress.isComplete ? roundMark(progress.earned) : null;
+}
+
+// Average score needed on the unscored assessments for the subject mark to
+// reach targetMark. Above 100 means the target is out of reach; null when
+// nothing is left to score.
+export function getRequiredRemainingScore(assessments: Assessment[], targetMark: number): number | null {
+  const progress = getAssessmentProgress(assessments);
+  const remainingWeight = 100 - progress.scoredWeight;
+  if (remainingWeight <= 0) return null;
+  return Math.max(0, roundMark(((targetMark - progress.earned) / remainingWeight) * 100));
+}
+
+// Subjects with a running mark standing in for a final mark that is not known
+// yet, so WAM projections can include subjects still in progress
+export function withProjectedMarks(subjects: Subject[]): Subject[] {
+  return subjects.map((subject) => {
+    if (subject.mark.trim() || !subject.assessments?.length) return subject;
+    const { runningMark } = getAssessmentProgress(subject.assessments);
+    return runningMark === null ? subject : { ...subject, mark: runningMark.toString() };
+  });
+}
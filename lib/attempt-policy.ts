@@ -0,0 +1,56 @@
+// Repeated subjects
+// A student who re-takes a subject has one row per attempt, in different
+// semesters. The attempt policy decides which marked attempts count towards
+// the cumulative WAM, CGPA and credits.
+
+import { getAllSubjects, parseMark, toGradedSubject, type Semester, type Subject } from './academic-engine';
+import { normalizeCode } from './subject-codes';
+
+export type AttemptPolicy = 'all' | 'latest' | 'best';
+
+export const ATTEMPT_POLICIES: { id: AttemptPolicy; label: string; description: string }[] = [
+  { id: 'all', label: 'Count all attempts', description: 'Every marked attempt counts towards WAM and GPA' },
+  { id: 'latest', label: 'Latest attempt only', description: 'Only the most recent marked attempt counts' },
+  { id: 'best', label: 'Best attempt only', description: 'Only the highest marked attempt counts' },
+];
+
+// A marked attempt competes with other attempts; planned and credit-only rows do not
+function isMarkedAttempt(subject: Subject): boolean {
+  return toGradedSubject(subject, []) !== null;
+}
+
+// Codes with more than one marked attempt, mapped to those attempts in semester order
+export function findRepeatedSubjects(semesters: Semester[]): Map<string, Subject[]> {
+  const attempts = new Map<string, Subject[]>();
+  getAllSubjects(semesters)
+    .filter(isMarkedAttempt)
+    .forEach((subject) => {
+      const code = normalizeCode(subject.code);
+      attempts.set(code, [...(attempts.get(code) ?? []), subject]);
+    });
+
+  return new Map(Array.from(attempts).filter(([, subjectAttempts]) => subjectAttempts.length > 1));
+}
+
+// Ids of attempts the policy leaves out of the cumulative figures
+export function getExcludedAttemptIds(semesters: Semester[], policy: AttemptPolicy): Set<string> {
+  const excluded = new Set<string>();
+  if (policy === 'all') return excluded;
+
+  findRepeatedSubjects(semesters).forEach((attempts) => {
+    // Ties go to the later attempt
+    const counted =
+      policy === 'latest'
+        ? attempts[attempts.length - 1]
+        : attempts.reduce((best, attempt) => (parseMark(attempt.mark)! >= parseMark(best.mark)! ? attempt : best));
+    attempts.filter((attempt) => attempt !== counted).forEach((attempt) => excluded.add(attempt.id));
+  });
+
+  return excluded;
+}
+
+// All subjects in semester order with the attempts the policy excludes removed
+export function getCountedSubjects(semesters: Semester[], policy: AttemptPolicy): Subject[] {
+  const excluded = getExcludedAttemptIds(semesters, policy);
+  return getAllSubjects(semesters).filter((subject) => !excluded.has(subject.id));
+}
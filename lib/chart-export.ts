@@ -0,0 +1,92 @@
+// Chart export
+// Saves a rendered recharts chart as a standalone SVG or PNG. Colours come
+// from CSS variables on the page, so the computed fill and stroke of every
+// element are written onto the copy before it leaves the document.
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const INLINED_STYLES = ['fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray', 'opacity', 'font-size', 'font-family'];
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// A self-contained copy of the chart's SVG with a solid background
+function serializeChart(container: HTMLElement, background: string): { markup: string; width: number; height: number } {
+  const svg = container.querySelector('svg.recharts-surface');
+  if (!svg) throw new Error('No chart to export');
+
+  const { width, height } = svg.getBoundingClientRect();
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const sourceElements = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const copyElements = [copy, ...Array.from(copy.querySelectorAll('*'))];
+
+  sourceElements.forEach((element, index) => {
+    const computed = window.getComputedStyle(element);
+    const target = copyElements[index] as SVGElement;
+    INLINED_STYLES.forEach((property) => {
+      const value = computed.getPropertyValue(property);
+      if (value) target.style.setProperty(property, value);
+    });
+  });
+
+  copy.setAttribute('xmlns', SVG_NAMESPACE);
+  copy.setAttribute('width', String(width));
+  copy.setAttribute('height', String(height));
+  const backdrop = document.createElementNS(SVG_NAMESPACE, 'rect');
+  backdrop.setAttribute('width', '100%');
+  backdrop.setAttribute('height', '100%');
+  backdrop.setAttribute('fill', background);
+  copy.insertBefore(backdrop, copy.firstChild);
+
+  return { markup: new XMLSerializer().serializeToString(copy), width, height };
+}
+
+export function exportChartAsSVG(container: HTMLElement, filename: string, background: string): void {
+  const { markup } = serializeChart(container, background);
+  downloadBlob(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }), `${filename}.svg`);
+}
+
+// PNGs are drawn at twice the on-screen size so they stay sharp
+export function exportChartAsPNG(container: HTMLElement, filename: string, background: string): Promise<void> {
+  const { markup, width, height } = serializeChart(container, background);
+  const scale = 2;
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error('Could not create the image'));
+          return;
+        }
+        downloadBlob(blob, `${filename}.png`);
+        resolve();
+      }, 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the chart'));
+    };
+    image.src = url;
+  });
+}
@@ -0,0 +1,135 @@
+// Award classification
+// Honours and award classes are decided by a WAM that may be restricted to, or
+// weighted towards, higher-level subjects. A classification scheme names the
+// levels that count, their weights and the bands (Distinction, First Class...).
+
+import { z } from 'zod';
+import { getGradedSubjects, type Subject } from './academic-engine';
+import { getSubjectLevel } from './subject-codes';
+
+export interface ClassificationBand {
+  id: string;
+  name: string;
+  minWAM: number;
+}
+
+export interface ClassificationScheme {
+  id: string;
+  name: string;
+  description: string;
+  // Weight per subject level (1 = 100-level); 0 or missing leaves the level out
+  levelWeights: Record<string, number>;
+  // Weight for subjects whose code has no level digit
+  unknownLevelWeight: number;
+  bands: ClassificationBand[];
+}
+
+export interface ClassificationResult {
+  wam: number | null;
+  band: ClassificationBand | null;
+  // The next band up and how far the classification WAM is below it
+  nextBand: ClassificationBand | null;
+  gapToNextBand: number | null;
+  countedCredits: number;
+}
+
+export const PRESET_CLASSIFICATIONS: ClassificationScheme[] = [
+  {
+    id: 'award-distinction',
+    name: 'Award with Distinction',
+    description: 'Overall WAM across every subject',
+    levelWeights: { '1': 1, '2': 1, '3': 1, '4': 1 },
+    unknownLevelWeight: 1,
+    bands: [
+      { id: 'high-distinction', name: 'High Distinction', minWAM: 85 },
+      { id: 'distinction', name: 'Distinction', minWAM: 75 },
+    ],
+  },
+  {
+    id: 'honours-weighted',
+    name: 'Honours (200/300-level weighted)',
+    description: '100-level subjects excluded; 300-level and above count double',
+    levelWeights: { '1': 0, '2': 1, '3': 2, '4': 2 },
+    unknownLevelWeight: 0,
+    bands: [
+      { id: 'first-class', name: 'First Class Honours', minWAM: 80 },
+      { id: 'second-class-1', name: 'Second Class Honours (Division 1)', minWAM: 70 },
+      { id: 'second-class-2', name: 'Second Class Honours (Division 2)', minWAM: 65 },
+      { id: 'third-class', name: 'Third Class Honours', minWAM: 50 },
+    ],
+  },
+];
+
+export const DEFAULT_CLASSIFICATION = PRESET_CLASSIFICATIONS[0];
+
+export const ClassificationSchemeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().catch(''),
+  levelWeights: z.record(z.number().min(0)),
+  unknownLevelWeight: z.number().min(0),
+  bands: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string().min(1),
+      minWAM: z.number().min(0).max(100),
+    })
+  ),
+});
+
+export function isPresetClassification(id: string): boolean {
+  return PRESET_CLASSIFICATIONS.some((scheme) => scheme.id === id);
+}
+
+export function sortClassificationBands(bands: ClassificationBand[]): ClassificationBand[] {
+  return [...bands].sort((a, b) => b.minWAM - a.minWAM);
+}
+
+export function getLevelWeight(code: string, scheme: ClassificationScheme): number {
+  const level = getSubjectLevel(code);
+  return level === null ? scheme.unknownLevelWeight : scheme.levelWeights[String(level)] ?? 0;
+}
+
+// Classification WAM = sum(credit points × level weight × mark) ÷ sum(credit points × level weight)
+export function calculateClassification(subjects: Subject[], scheme: ClassificationScheme): ClassificationResult {
+  let totalWeight = 0;
+  let totalWeightedMarks = 0;
+  let countedCredits = 0;
+
+  getGradedSubjects(subjects, []).forEach((subject) => {
+    const weight = getLevelWeight(subject.code, scheme);
+    if (weight <= 0) return;
+    totalWeight += subject.creditPoints * weight;
+    totalWeightedMarks += subject.creditPoints * weight * subject.mark;
+    countedCredits += subject.creditPoints;
+  });
+
+  const wam = totalWeight > 0 ? totalWeightedMarks / totalWeight : null;
+  const bands = sortClassificationBands(scheme.bands);
+  const bandIndex = wam === null ? -1 : bands.findIndex((band) => wam >= band.minWAM);
+  const band = bandIndex === -1 ? null : bands[bandIndex];
+  const nextBand = bandIndex === -1 ? bands[bands.length - 1] ?? null : bands[bandIndex - 1] ?? null;
+
+  return {
+    wam,
+    band,
+    nextBand,
+    gapToNextBand: nextBand && wam !== null ? nextBand.minWAM - wam : null,
+    countedCredits,
+  };
+}
+
+// Problems that would make a scheme meaningless, for the settings editor
+export function validateClassificationScheme(scheme: ClassificationScheme): string[] {
+  const errors: string[] = [];
+  if (!scheme.name.trim()) errors.push('Give the classification a name.');
+  if (scheme.bands.length === 0) errors.push('Add at least one band.');
+  if (scheme.bands.some((band) => !band.name.trim())) errors.push('Every band needs a name.');
+  if (scheme.bands.some((band) => isNaN(band.minWAM) || band.minWAM < 0 || band.minWAM > 100)) {
+    errors.push('Minimum WAMs must be between 0 and 100.');
+  }
+  const weights = [...Object.values(scheme.levelWeights), scheme.unknownLevelWeight];
+  if (weights.some((weight) => isNaN(weight) || weight < 0)) errors.push('Level weights cannot be negative.');
+  if (weights.every((weight) => !(weight > 0))) errors.push('At least one level must count.');
+  return errors;
+}
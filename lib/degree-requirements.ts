@@ -0,0 +1,309 @@
+// Degree requirements
+// A degree is described declaratively as a list of rules (core subjects,
+// majors, elective pools, level maximums, total credits). The rules are
+// evaluated against the student's subjects to show what is satisfied, still
+// outstanding, or at risk. Level minimums come from the level minimum
+// settings rather than the definition, so there is one place to set them.
+
+import { z } from 'zod';
+import {
+  getGradedSubjects,
+  isCreditOnlySubject,
+  isPlannedSubject,
+  parseCreditPoints,
+  type Subject,
+} from './academic-engine';
+import type { GradeBand } from './grade-bands';
+import { checkLevelMinimums } from './level-analytics';
+import { formatLevel, getSubjectDiscipline, getSubjectLevel, normalizeCode } from './subject-codes';
+
+// Subjects an elective pool accepts: listed codes, or any subject in the listed
+// disciplines at or above minLevel
+const PoolSchema = z.object({
+  subjects: z.array(z.string()).optional(),
+  disciplines: z.array(z.string()).optional(),
+  minLevel: z.number().int().min(1).max(9).optional(),
+});
+
+const DegreeRuleSchema = z.discriminatedUnion('type', [
+  z.object({ id: z.string(), type: z.literal('core'), label: z.string(), subjects: z.array(z.string()).min(1) }),
+  z.object({
+    id: z.string(),
+    type: z.literal('major'),
+    label: z.string(),
+    core: z.array(z.string()),
+    electives: PoolSchema,
+    electiveCredits: z.number().min(0),
+  }),
+  z.object({
+    id: z.string(),
+    type: z.literal('elective-pool'),
+    label: z.string(),
+    pool: PoolSchema,
+    minCredits: z.number().positive(),
+  }),
+  z.object({ id: z.string(), type: z.literal('level-maximum'), level: z.number().int(), maxCredits: z.number().min(0) }),
+  z.object({ id: z.string(), type: z.literal('total-credits'), minCredits: z.number().positive() }),
+]);
+
+export const DegreeDefinitionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  rules: z.array(DegreeRuleSchema),
+});
+
+export type ElectivePool = z.infer<typeof PoolSchema>;
+export type DegreeRule = z.infer<typeof DegreeRuleSchema>;
+export type DegreeDefinition = z.infer<typeof DegreeDefinitionSchema>;
+
+export type RequirementStatus = 'satisfied' | 'outstanding' | 'at-risk';
+
+export interface RequirementResult {
+  // The rule id, or level-minimum-<level> for a configured level minimum
+  id: string;
+  label: string;
+  status: RequirementStatus;
+  completed: number;
+  required: number;
+  // Human-readable explanation, e.g. which subjects are still missing
+  detail: string;
+}
+
+export const PRESET_DEGREES: DegreeDefinition[] = [
+  {
+    id: 'generic-bachelor',
+    name: 'Generic 144-credit bachelor',
+    rules: [
+      { id: 'total', type: 'total-credits', minCredits: 144 },
+      { id: 'max-100', type: 'level-maximum', level: 1, maxCredits: 60 },
+    ],
+  },
+  {
+    id: 'example-computer-science',
+    name: 'Example: Bachelor of Computer Science',
+    rules: [
+      { id: 'total', type: 'total-credits', minCredits: 144 },
+      { id: 'core-foundation', type: 'core', label: 'Foundation core', subjects: ['CSIT111', 'CSIT113', 'CSIT114', 'CSIT121', 'CSIT127', 'CSIT128', 'MATH221'] },
+      { id: 'core-200', type: 'core', label: '200-level core', subjects: ['CSCI203', 'CSCI235', 'CSCI251', 'CSIT214', 'CSCI262'] },
+      {
+        id: 'major',
+        type: 'major',
+        label: 'Major',
+        core: ['CSCI301', 'CSIT314', 'CSCI321'],
+        electives: { disciplines: ['CSCI', 'CSIT', 'ISIT'], minLevel: 3 },
+        electiveCredits: 18,
+      },
+      { id: 'electives', type: 'elective-pool', label: 'General electives', pool: {}, minCredits: 24 },
+      { id: 'max-100', type: 'level-maximum', level: 1, maxCredits: 60 },
+    ],
+  },
+];
+
+// What the student has done with each subject code
+interface SubjectStanding {
+  passed: Map<string, number>;
+  failed: Set<string>;
+  planned: Map<string, number>;
+}
+
+function getSubjectStanding(subjects: Subject[], bands: GradeBand[]): SubjectStanding {
+  const passed = new Map<string, number>();
+  const failed = new Set<string>();
+  const planned = new Map<string, number>();
+
+  getGradedSubjects(subjects, bands).forEach((subject) => {
+    const code = normalizeCode(subject.code);
+    if (subject.isFail) failed.add(code);
+    else passed.set(code, subject.creditPoints);
+  });
+  subjects.forEach((subject) => {
+    const code = normalizeCode(subject.code);
+    const creditPoints = parseCreditPoints(subject.creditPoints);
+    if (!code || creditPoints === null) return;
+    if (isCreditOnlySubject(subject)) passed.set(code, creditPoints);
+    else if (isPlannedSubject(subject) && !passed.has(code)) planned.set(code, creditPoints);
+  });
+
+  return { passed, failed, planned };
+}
+
+export function matchesPool(code: string, pool: ElectivePool): boolean {
+  if (pool.subjects?.map(normalizeCode).includes(code)) return true;
+  if (pool.subjects && !pool.disciplines) return false;
+  const discipline = getSubjectDiscipline(code);
+  const level = getSubjectLevel(code) ?? 0;
+  if (pool.disciplines && (!discipline || !pool.disciplines.map(normalizeCode).includes(discipline))) return false;
+  return level >= (pool.minLevel ?? 0);
+}
+
+const sumCredits = (entries: [string, number][]) => entries.reduce((sum, [, credits]) => sum + credits, 0);
+
+function evaluateCore(label: string, codes: string[], standing: SubjectStanding) {
+  const required = codes.map(normalizeCode);
+  const missing = required.filter((code) => !standing.passed.has(code));
+  const failed = missing.filter((code) => standing.failed.has(code) && !standing.planned.has(code));
+  const planned = missing.filter((code) => standing.planned.has(code));
+
+  const parts: string[] = [];
+  if (failed.length > 0) parts.push(`failed and not re-enrolled: ${failed.join(', ')}`);
+  if (planned.length > 0) parts.push(`in progress: ${planned.join(', ')}`);
+  const notStarted = missing.filter((code) => !failed.includes(code) && !planned.includes(code));
+  if (notStarted.length > 0) parts.push(`still to take: ${notStarted.join(', ')}`);
+
+  return {
+    label,
+    status: (missing.length === 0 ? 'satisfied' : failed.length > 0 ? 'at-risk' : 'outstanding') as RequirementStatus,
+    completed: required.length - missing.length,
+    required: required.length,
+    detail: missing.length === 0 ? 'All core subjects passed' : parts.join('; '),
+  };
+}
+
+// Take eligible subjects until the pool's credits are covered. Taken codes are
+// added to used, so a later rule cannot count the same subject again.
+function evaluatePool(pool: ElectivePool, minCredits: number, used: Set<string>, standing: SubjectStanding) {
+  const allocate = (entries: Map<string, number>, credits: number) => {
+    let allocated = 0;
+    Array.from(entries)
+      .filter(([code]) => !used.has(code) && matchesPool(code, pool))
+      .forEach(([code, creditPoints]) => {
+        if (allocated >= credits) return;
+        used.add(code);
+        allocated += creditPoints;
+      });
+    return allocated;
+  };
+  const completed = allocate(standing.passed, minCredits);
+  const planned = allocate(standing.planned, minCredits - completed);
+
+  if (completed >= minCredits) return { completed, status: 'satisfied' as RequirementStatus, detail: `${completed} credits completed` };
+  const remaining = minCredits - completed;
+  return {
+    completed,
+    status: 'outstanding' as RequirementStatus,
+    detail:
+      planned > 0
+        ? `${remaining} credits to go, ${Math.min(planned, remaining)} of them in progress`
+        : `${remaining} credits to go`,
+  };
+}
+
+// Evaluate every rule of a degree against the student's subjects, followed by
+// the configured level minimums. Elective pools are filled in rule order.
+export function evaluateDegree(
+  definition: DegreeDefinition,
+  subjects: Subject[],
+  bands: GradeBand[],
+  levelMinimumCredits: Record<string, number> = {},
+): RequirementResult[] {
+  const standing = getSubjectStanding(subjects, bands);
+
+  // Core and major subjects cannot also count as electives
+  const usedCodes = new Set(
+    definition.rules.flatMap((rule) =>
+      rule.type === 'core' ? rule.subjects : rule.type === 'major' ? rule.core : []
+    ).map(normalizeCode)
+  );
+
+  const creditsAtLevel = (entries: Map<string, number>, level: number) =>
+    sumCredits(Array.from(entries).filter(([code]) => getSubjectLevel(code) === level));
+
+  const ruleResults = definition.rules.map((rule): RequirementResult => {
+    switch (rule.type) {
+      case 'core':
+        return { id: rule.id, ...evaluateCore(rule.label, rule.subjects, standing) };
+
+      case 'major': {
+        const core = evaluateCore(rule.label, rule.core, standing);
+        const electives = evaluatePool(rule.electives, rule.electiveCredits, usedCodes, standing);
+        const satisfied = core.status === 'satisfied' && electives.status === 'satisfied';
+        return {
+          id: rule.id,
+          label: rule.label,
+          status: satisfied ? 'satisfied' : core.status === 'at-risk' ? 'at-risk' : 'outstanding',
+          completed: core.completed + (electives.status === 'satisfied' ? 1 : 0),
+          required: core.required + 1,
+          detail: `Core: ${core.detail}. Electives: ${electives.detail}`,
+        };
+      }
+
+      case 'elective-pool': {
+        const electives = evaluatePool(rule.pool, rule.minCredits, usedCodes, standing);
+        return {
+          id: rule.id,
+          label: rule.label,
+          status: electives.status,
+          completed: electives.completed,
+          required: rule.minCredits,
+          detail: electives.detail,
+        };
+      }
+
+      case 'level-maximum': {
+        const completed = creditsAtLevel(standing.passed, rule.level);
+        const withPlanned = completed + creditsAtLevel(standing.planned, rule.level);
+        return {
+          id: rule.id,
+          label: `No more than ${rule.maxCredits} credits at ${formatLevel(rule.level)}`,
+          // Going over a maximum cannot be undone, so exceeding it is flagged rather than outstanding
+          status: withPlanned > rule.maxCredits ? 'at-risk' : 'satisfied',
+          completed: withPlanned,
+          required: rule.maxCredits,
+          detail:
+            withPlanned > rule.maxCredits
+              ? `${withPlanned - rule.maxCredits} credits over the limit${withPlanned > completed ? ' including subjects in progress' : ''}; the excess may not count`
+              : `${rule.maxCredits - withPlanned} credits of headroom`,
+        };
+      }
+
+      case 'total-credits': {
+        const completed = sumCredits(Array.from(standing.passed));
+        const planned = sumCredits(Array.from(standing.planned));
+        return {
+          id: rule.id,
+          label: `${rule.minCredits} credits in total`,
+          status: completed >= rule.minCredits ? 'satisfied' : 'outstanding',
+          completed,
+          required: rule.minCredits,
+          detail:
+            completed >= rule.minCredits
+              ? 'Credit total reached'
+              : `${rule.minCredits - completed} credits to go${planned > 0 ? `, ${planned} in progress` : ''}`,
+        };
+      }
+    }
+  });
+
+  const levelResults = checkLevelMinimums(subjects, bands, levelMinimumCredits).map((check): RequirementResult => {
+    const planned = creditsAtLevel(standing.planned, check.level);
+    return {
+      id: `level-minimum-${check.level}`,
+      label: `At least ${check.required} credits at ${check.label}`,
+      status: check.isMet ? 'satisfied' : 'outstanding',
+      completed: check.completed,
+      required: check.required,
+      detail: check.isMet
+        ? `${check.completed} credits completed`
+        : `${check.required - check.completed} credits to go${planned > 0 ? `, ${planned} in progress` : ''}`,
+    };
+  });
+
+  return [...ruleResults, ...levelResults];
+}
+
+export function parseDegreeDefinition(text: string): { definition: DegreeDefinition | null; errors: string[] } {
+  try {
+    const result = DegreeDefinitionSchema.safeParse(JSON.parse(text));
+    if (result.success) return { definition: result.data, errors: [] };
+    return {
+      definition: null,
+      errors: result.error.issues.map((issue) => `${issue.path.join('.') || 'definition'}: ${issue.message}`),
+    };
+  } catch {
+    return { definition: null, errors: ['The definition is not valid JSON.'] };
+  }
+}
+
+export function serializeDegreeDefinition(definition: DegreeDefinition): string {
+  return JSON.stringify(definition, null, 2);
+}
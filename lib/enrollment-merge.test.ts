@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { Semester, Subject } from './academic-engine';
+import { applyEnrollmentImport } from './enrollment-merge';
+import type { ParsedSemester } from './enrollment-parser';
+
+const subject = (code: string, mark: string): Subject => ({ id: code, code, creditPoints: '6', mark });
+
+const semester = (name: string, order: number, subjects: Subject[] = []): Semester => ({
+  id: name,
+  name,
+  subjects,
+  createdAt: new Date(0),
+  order,
+  isEditingName: false,
+});
+
+const parsed = (year: string, session: string, subjects: Subject[], order: number): ParsedSemester => ({
+  id: `${year}-${session}`,
+  name: `${year} ${session}`,
+  year,
+  session,
+  subjects,
+  order,
+});
+
+describe('applyEnrollmentImport', () => {
+  it('places new semesters by date around semesters matched by name in the same import', () => {
+    const existing = [semester('Semester 1', 0), semester('2023 Spring', 1, [subject('CSIT121', '')])];
+    const imported = [
+      parsed('2023', 'Autumn', [subject('CSIT111', '70')], 0),
+      parsed('2023', 'Spring', [subject('CSIT121', '80')], 1),
+    ];
+
+    const result = applyEnrollmentImport(existing, imported, 'merge');
+
+    expect(result.map((s) => [s.name, s.order])).toEqual([
+      ['Semester 1', 0],
+      ['2023 Autumn', 1],
+      ['2023 Spring', 2],
+    ]);
+    expect(result[2]).toMatchObject({ year: '2023', session: 'Spring' });
+    expect(result[2].subjects[0].mark).toBe('80');
+  });
+
+  it('appends new semesters after every earlier dated semester', () => {
+    const existing = [{ ...semester('2023 Autumn', 0), year: '2023', session: 'Autumn' }];
+    const imported = [parsed('2024', 'Autumn', [subject('CSCI203', '65')], 0), parsed('2023', 'Spring', [subject('CSIT121', '75')], 1)];
+
+    const result = applyEnrollmentImport(existing, imported, 'merge');
+
+    expect(result.map((s) => s.name)).toEqual(['2023 Autumn', '2023 Spring', '2024 Autumn']);
+    expect(result.map((s) => s.order)).toEqual([0, 1, 2]);
+  });
+});
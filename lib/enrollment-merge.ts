@@ -0,0 +1,199 @@
+// Merging an enrollment record into existing calculator data
+// Semesters are matched by year and session (or by name for semesters typed in
+// by hand), subjects by code. Marks the student has already entered are never
+// overwritten without an explicit choice, and an import only changes what its
+// preview showed.
+
+import { MAX_SUBJECTS_PER_SEMESTER, parseCreditPoints, type Semester, type Subject } from './academic-engine';
+import { compareYearSession, type ParsedSemester } from './enrollment-parser';
+import { normalizeCode } from './subject-codes';
+import { generateUniqueId } from './utils';
+
+export type ImportMode = 'replace' | 'merge';
+
+// over-limit: a new subject that does not fit in a semester that is already full
+export type MergeChangeKind = 'new-semester' | 'new-subject' | 'mark-filled' | 'conflict' | 'unchanged' | 'over-limit';
+
+export type ConflictResolution = 'keep' | 'import';
+
+export interface MergeChange {
+  id: string;
+  kind: MergeChangeKind;
+  semesterName: string;
+  code: string;
+  current?: Pick<Subject, 'creditPoints' | 'mark'>;
+  incoming: Pick<Subject, 'creditPoints' | 'mark'>;
+}
+
+export interface MergeSummary {
+  newSemesters: number;
+  newSubjects: number;
+  marksFilled: number;
+  conflicts: number;
+  unchanged: number;
+  overLimit: number;
+}
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export function toCalculatorSemester(semester: ParsedSemester): Semester {
+  return {
+    id: semester.id,
+    name: semester.name,
+    subjects: semester.subjects,
+    createdAt: new Date(),
+    order: semester.order,
+    isEditingName: false,
+    year: semester.year,
+    session: semester.session,
+  };
+}
+
+// Stable key for one imported subject, used to record conflict choices
+function getChangeId(semester: ParsedSemester, code: string): string {
+  return `${semester.year}|${semester.session}|${normalizeCode(code)}`;
+}
+
+function findMatchingSemester(existing: Semester[], imported: ParsedSemester): Semester | undefined {
+  return existing.find((semester) => {
+    if (semester.year !== undefined && semester.session !== undefined) {
+      return semester.year.trim() === imported.year.trim() && semester.session.trim() === imported.session.trim();
+    }
+    return normalizeName(semester.name) === normalizeName(imported.name);
+  });
+}
+
+function findMatchingSubject(semester: Semester, code: string): Subject | undefined {
+  return semester.subjects.find((subject) => normalizeCode(subject.code) === normalizeCode(code));
+}
+
+function isSameResult(current: Subject, incoming: Pick<Subject, 'creditPoints' | 'mark'>): boolean {
+  return Number(current.creditPoints) === Number(incoming.creditPoints) && Number(current.mark) === Number(incoming.mark);
+}
+
+// Work out what merging would change, without changing anything
+export function planEnrollmentMerge(existing: Semester[], imported: ParsedSemester[]): MergeChange[] {
+  const changes: MergeChange[] = [];
+
+  imported.forEach((importedSemester) => {
+    const match = findMatchingSemester(existing, importedSemester);
+    let subjectCount = match?.subjects.length ?? 0;
+
+    importedSemester.subjects.forEach((subject) => {
+      const id = getChangeId(importedSemester, subject.code);
+      const incoming = { creditPoints: subject.creditPoints, mark: subject.mark };
+      const base = { id, semesterName: match?.name ?? importedSemester.name, code: subject.code, incoming };
+
+      if (!match) {
+        changes.push({ ...base, kind: 'new-semester' });
+        return;
+      }
+
+      const current = findMatchingSubject(match, subject.code);
+      if (!current) {
+        changes.push({ ...base, kind: subjectCount < MAX_SUBJECTS_PER_SEMESTER ? 'new-subject' : 'over-limit' });
+        subjectCount++;
+      } else if (!current.mark.trim()) {
+        changes.push({ ...base, kind: incoming.mark ? 'mark-filled' : 'unchanged', current });
+      } else if (!incoming.mark || isSameResult(current, incoming)) {
+        // An in-progress record never clears a mark the student has entered
+        changes.push({ ...base, kind: 'unchanged', current });
+      } else {
+        changes.push({ ...base, kind: 'conflict', current });
+      }
+    });
+  });
+
+  return changes;
+}
+
+export function summarizeMerge(changes: MergeChange[]): MergeSummary {
+  return {
+    newSemesters: new Set(changes.filter((change) => change.kind === 'new-semester').map((change) => change.semesterName)).size,
+    newSubjects: changes.filter((change) => change.kind === 'new-subject' || change.kind === 'new-semester').length,
+    marksFilled: changes.filter((change) => change.kind === 'mark-filled').length,
+    conflicts: changes.filter((change) => change.kind === 'conflict').length,
+    unchanged: changes.filter((change) => change.kind === 'unchanged').length,
+    overLimit: changes.filter((change) => change.kind === 'over-limit').length,
+  };
+}
+
+// Insert a new semester before the first dated semester that comes after it
+function insertChronologically(semesters: Semester[], semester: Semester): Semester[] {
+  const index = semesters.findIndex(
+    (other) =>
+      other.year !== undefined &&
+      other.session !== undefined &&
+      compareYearSession(semester.year!, semester.session!, other.year, other.session) < 0
+  );
+  if (index === -1) return [...semesters, semester];
+  return [...semesters.slice(0, index), semester, ...semesters.slice(index)];
+}
+
+// Fill in an imported mark. Credit points are only taken when they are valid,
+// and a credit-only subject that receives a mark becomes a normal subject.
+function takeImportedResult(current: Subject, incoming: Subject, includeCreditPoints: boolean): Subject {
+  const { kind, creditSource, ...rest } = current;
+  const takeCreditPoints =
+    parseCreditPoints(incoming.creditPoints) !== null &&
+    (includeCreditPoints || parseCreditPoints(current.creditPoints) === null);
+  return {
+    ...rest,
+    mark: incoming.mark,
+    creditPoints: takeCreditPoints ? incoming.creditPoints : current.creditPoints,
+  };
+}
+
+// Apply an import. Only the changes planEnrollmentMerge reports are made:
+// conflicts keep the student's values unless resolved to 'import', unchanged
+// subjects are left alone and subjects over the semester limit are skipped.
+export function applyEnrollmentImport(
+  existing: Semester[],
+  imported: ParsedSemester[],
+  mode: ImportMode,
+  resolutions: Record<string, ConflictResolution> = {},
+): Semester[] {
+  if (mode === 'replace') return imported.map(toCalculatorSemester);
+
+  const changes = new Map(planEnrollmentMerge(existing, imported).map((change) => [change.id, change]));
+  let result = [...existing].sort((a, b) => a.order - b.order);
+  const newSemesters: Semester[] = [];
+
+  imported.forEach((importedSemester) => {
+    const match = findMatchingSemester(result, importedSemester);
+    if (!match) {
+      newSemesters.push(toCalculatorSemester(importedSemester));
+      return;
+    }
+
+    const subjects = [...match.subjects];
+    importedSemester.subjects.forEach((subject) => {
+      const id = getChangeId(importedSemester, subject.code);
+      const index = subjects.findIndex((current) => normalizeCode(current.code) === normalizeCode(subject.code));
+
+      switch (changes.get(id)?.kind) {
+        case 'new-subject':
+          subjects.push({ ...subject, id: generateUniqueId() });
+          break;
+        case 'mark-filled':
+          subjects[index] = takeImportedResult(subjects[index], subject, false);
+          break;
+        case 'conflict':
+          if (resolutions[id] === 'import') subjects[index] = takeImportedResult(subjects[index], subject, true);
+          break;
+      }
+    });
+
+    // Remember the session so the next import matches without relying on the name
+    const updated: Semester = { ...match, subjects, year: importedSemester.year, session: importedSemester.session };
+    result = result.map((semester) => (semester.id === match.id ? updated : semester));
+  });
+
+  // New semesters go in last, once every matched semester has its session, so
+  // one matched by name in this same import is placed by date too
+  newSemesters.forEach((semester) => {
+    result = insertChronologically(result, semester);
+  });
+
+  return result.map((semester, index) => ({ ...semester, order: index }));
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { calculateWAM, getRecordOutcome, parseEnrollmentRecord, type EnrollmentRecord } from './enrollment-parser';
+
+const record = (status: string, mark?: number, grade?: string): EnrollmentRecord => ({
+  line: 1,
+  year: '2023',
+  session: 'Autumn',
+  subjectCode: 'CSIT111',
+  nomCP: 6,
+  mark,
+  grade,
+  status,
+});
+
+describe('getRecordOutcome', () => {
+  it('excludes withdrawals without penalty', () => {
+    expect(getRecordOutcome(record('Withdrawn'))).toBe('withdrawn');
+    expect(getRecordOutcome(record('Withdrawn without penalty'))).toBe('withdrawn');
+    expect(getRecordOutcome(record('Withdrawn - Without Penalty'))).toBe('withdrawn');
+  });
+
+  it('counts withdrawals with a penalty as fails', () => {
+    expect(getRecordOutcome(record('Withdrawn Fail'))).toBe('graded');
+    expect(getRecordOutcome(record('Withdrawn with penalty'))).toBe('graded');
+    expect(getRecordOutcome(record('Withdrawn - Fail', 20, 'F'))).toBe('graded');
+  });
+
+  it('counts technical fails as graded', () => {
+    expect(getRecordOutcome(record('Technical Fail', 49, 'TF'))).toBe('graded');
+    expect(getRecordOutcome(record('Fail - Technical'))).toBe('graded');
+  });
+
+  it('keeps an unmarked Complete in progress', () => {
+    expect(getRecordOutcome(record('complete'))).toBe('in-progress');
+    expect(getRecordOutcome(record('Complete', 70, 'D'))).toBe('graded');
+  });
+
+  it('does not guess at unrecognised statuses', () => {
+    expect(getRecordOutcome(record('Withdrawn late'))).toBe('unknown');
+  });
+});
+
+describe('calculateWAM', () => {
+  it('counts a penalty withdrawal with no released mark as zero', () => {
+    expect(calculateWAM([record('Complete', 80, 'D'), record('Withdrawn with penalty')])).toBeCloseTo(40);
+  });
+
+  it('leaves out withdrawals without penalty', () => {
+    expect(calculateWAM([record('Complete', 80, 'D'), record('Withdrawn')])).toBeCloseTo(80);
+  });
+});
+
+describe('parseEnrollmentRecord', () => {
+  it('reads tab-separated lines', () => {
+    const { records, diagnostics } = parseEnrollmentRecord('2023\tAutumn\tDubai/ On Campus\tCSIT111\t6\t78\tD\tComplete');
+
+    expect(diagnostics).toEqual([]);
+    expect(records).toEqual([
+      {
+        line: 1,
+        year: '2023',
+        session: 'Autumn',
+        campus: 'Dubai/ On Campus',
+        subjectCode: 'CSIT111',
+        nomCP: 6,
+        mark: 78,
+        grade: 'D',
+        status: 'Complete',
+      },
+    ]);
+  });
+
+  it('reads columns separated by runs of spaces', () => {
+    const { records, diagnostics } = parseEnrollmentRecord('2023  Spring  Dubai/ On Campus  csit121  6  88  HD  Complete');
+
+    expect(diagnostics).toEqual([]);
+    expect(records[0]).toMatchObject({ session: 'Spring', campus: 'Dubai/ On Campus', subjectCode: 'CSIT121', mark: 88, grade: 'HD' });
+  });
+
+  it('falls back to locating the subject code when separators are lost', () => {
+    const { records, diagnostics } = parseEnrollmentRecord('2024 Autumn Session Dubai/ On Campus CSCI203 6 64 P Complete');
+
+    expect(diagnostics).toEqual([]);
+    expect(records[0]).toMatchObject({
+      year: '2024',
+      session: 'Autumn Session',
+      campus: 'Dubai/ On Campus',
+      subjectCode: 'CSCI203',
+      nomCP: 6,
+      mark: 64,
+      grade: 'P',
+      status: 'Complete',
+    });
+  });
+
+  it('reads an unmarked line in the fallback', () => {
+    const { records } = parseEnrollmentRecord('2024 Spring CSCI235 6 Enrolled');
+    expect(records[0]).toMatchObject({ session: 'Spring', subjectCode: 'CSCI235', mark: undefined, status: 'Enrolled' });
+  });
+
+  it('skips header and blank lines', () => {
+    const text = ['Year\tSession\tCampus\tSubject Code\tNomCP\tMark\tGrade\tStatus', '', '2023 Autumn CSIT111 6 78 D Complete'].join('\n');
+    const { records, diagnostics } = parseEnrollmentRecord(text);
+
+    expect(diagnostics).toEqual([]);
+    expect(records.map((r) => r.line)).toEqual([3]);
+  });
+
+  it('rejects a line it cannot use, with its line number and reason', () => {
+    const text = ['2023 Autumn CSIT111 6 78 D Complete', 'Total credit points 6'].join('\n');
+    const { records, diagnostics } = parseEnrollmentRecord(text);
+
+    expect(records).toHaveLength(1);
+    expect(diagnostics).toEqual([
+      {
+        line: 2,
+        severity: 'error',
+        message: 'No subject code found (expected something like CSCI203)',
+        text: 'Total credit points 6',
+      },
+    ]);
+  });
+
+  it('rejects a line whose first column is not a year', () => {
+    const { diagnostics } = parseEnrollmentRecord('Autumn CSIT111 6 78 D Complete');
+    expect(diagnostics).toMatchObject([{ line: 1, severity: 'error', message: '"Autumn" is not a year' }]);
+  });
+
+  it('warns about a NomCP that is not a whole number', () => {
+    const { records, diagnostics } = parseEnrollmentRecord('2023\tAutumn\t\tCSIT111\tsix\t78\tD\tComplete');
+
+    expect(records[0].nomCP).toBe(0);
+    expect(diagnostics).toMatchObject([
+      { line: 1, severity: 'warning', message: 'NomCP "six" is not a whole number; enter the credit points after importing' },
+    ]);
+  });
+
+  it('warns about a mark without a grade', () => {
+    const { records, diagnostics } = parseEnrollmentRecord('2023\tAutumn\t\tCSIT111\t6\t78\t\tComplete');
+
+    expect(records[0].mark).toBe(78);
+    expect(diagnostics).toMatchObject([{ line: 1, severity: 'warning', message: 'Has a mark but no grade' }]);
+  });
+
+  it('warns about a Complete subject without a mark', () => {
+    const { records, diagnostics } = parseEnrollmentRecord('2023\tAutumn\t\tCSIT111\t6\t\t\tComplete');
+
+    expect(records).toHaveLength(1);
+    expect(diagnostics).toMatchObject([
+      { line: 1, severity: 'warning', message: 'Is marked Complete but has no mark, so it will not count towards WAM' },
+    ]);
+  });
+});
@@ -1,10 +1,21 @@
 // Enrollment record parser utility
 // Based on the logic from app(25).py for parsing UOWD enrollment records
 
+import {
+  calculateGPA as calculateSubjectsGPA,
+  calculateWAM as calculateSubjectsWAM,
+  type Subject,
+} from './academic-engine';
+import type { GradeBand } from './grade-bands';
+import { getSubjectLevel } from './subject-codes';
+import { generateUniqueId } from './utils';
+
 export interface EnrollmentRecord {
+  // 1-based line number in the pasted text
+  line: number;
   year: string;
   session: string;
-  campus: string;
+  campus?: string;
   subjectCode: string;
   nomCP: number;
   mark?: number;
@@ -12,80 +23,276 @@ export interface EnrollmentRecord {
   status: string;
 }
 
+// A problem with one pasted line. Errors mean the line was skipped.
+export interface ParseDiagnostic {
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+  text: string;
+}
+
+export interface EnrollmentParseResult {
+  records: EnrollmentRecord[];
+  diagnostics: ParseDiagnostic[];
+}
+
 export interface ParsedSemester {
   id: string;
   name: string;
   year: string;
   session: string;
-  subjects: {
-    id: string;
-    code: string;
-    creditPoints: string;
-    mark: string;
-  }[];
+  subjects: Subject[];
   order: number;
 }
 
-// Helper function to generate unique IDs
-const generateUniqueId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+// Sessions in calendar order within a year
+export const SESSION_ORDER = ['Summer', 'Autumn', 'Winter', 'Spring'];
 
-// Parse the raw enrollment record text
-export function parseEnrollmentRecord(inputText: string): EnrollmentRecord[] {
-  const lines = inputText.trim().split('\n');
-  const parsedRows: EnrollmentRecord[] = [];
-  
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    
-    // Split by tabs first, then by multiple spaces if no tabs
-    const parts = line.includes('\t') ? line.split('\t') : line.split(/\s{2,}/);
-    
-    if (parts.length >= 8) {
-      // Standard format with all fields
-      const [year, session, campus, subjectCode, nomCP, mark, grade, status] = parts;
-      
-      parsedRows.push({
-        year: year.trim(),
-        session: session.trim(),
-        campus: campus.trim(),
-        subjectCode: subjectCode.trim(),
-        nomCP: parseInt(nomCP.trim(), 10),
-        mark: mark.trim() ? parseFloat(mark.trim()) : undefined,
-        grade: grade.trim() || undefined,
-        status: status.trim()
-      });
-    } else if (parts.length >= 5) {
-      // Fallback parsing for less structured data
-      const tokens = line.split(/\s+/);
-      if (tokens.length >= 5) {
-        const year = tokens[0];
-        const status = tokens[tokens.length - 1];
-        const nomCP = tokens[tokens.length - 4];
-        const mark = tokens[tokens.length - 3];
-        const grade = tokens[tokens.length - 2];
-        const subjectCode = tokens[tokens.length - 5];
-        
-        // Build session from remaining tokens
-        const sessionTokens = tokens.slice(1, tokens.length - 5);
-        const session = sessionTokens.join(' ');
-        
-        if (year && session && subjectCode && !isNaN(parseInt(nomCP, 10))) {
-          parsedRows.push({
-            year,
-            session: session.trim(),
-            campus: "Dubai/ On Campus", // Default campus
-            subjectCode: subjectCode.trim(),
-            nomCP: parseInt(nomCP, 10),
-            mark: mark && !isNaN(parseFloat(mark)) ? parseFloat(mark) : undefined,
-            grade: grade || undefined,
-            status: status.trim()
-          });
-        }
-      }
+export function getSessionPriority(session: string): number {
+  for (let i = 0; i < SESSION_ORDER.length; i++) {
+    if (session.includes(SESSION_ORDER[i])) {
+      return i;
     }
   }
-  
-  return parsedRows;
+  return 999; // Unknown session goes last
+}
+
+// Chronological comparison of two year/session pairs
+export function compareYearSession(yearA: string, sessionA: string, yearB: string, sessionB: string): number {
+  if (yearA !== yearB) {
+    return parseInt(yearA) - parseInt(yearB);
+  }
+  return getSessionPriority(sessionA) - getSessionPriority(sessionB);
+}
+
+// How a record counts, decided by its SOLS status:
+// graded        Complete with a mark, or any fail (technical fails and withdrawals
+//               with penalty included); counts towards WAM/GPA, fails earn no credit
+// in-progress   Enrolled, or Incomplete/Complete still awaiting a mark; imported unmarked
+// withdrawn     Withdrawn without penalty; ignored entirely
+// credit        Credit / Advanced Standing; earns credit points but has no mark
+// supplementary A supplementary assessment whose mark replaces the original attempt
+// unknown       Anything else; not imported
+export type RecordOutcome = 'graded' | 'in-progress' | 'withdrawn' | 'credit' | 'supplementary' | 'unknown';
+
+// Statuses that are a fail whatever the mark, matched against the lower-cased status
+const FAIL_STATUS_PATTERN = /^(fail|failed|technical fail|fail\s*-\s*technical|withdrawn\s*-?\s*(fail|failed|with penalty))$/;
+
+const STATUS_OUTCOMES: { pattern: RegExp; outcome: RecordOutcome }[] = [
+  { pattern: /^(complete|completed)$/, outcome: 'graded' },
+  { pattern: FAIL_STATUS_PATTERN, outcome: 'graded' },
+  { pattern: /^(enrolled|in progress|current|incomplete|pending)$/, outcome: 'in-progress' },
+  { pattern: /^withdrawn(\s*-?\s*without penalty)?$/, outcome: 'withdrawn' },
+  { pattern: /^(credit|credit transfer|advanced standing|exempt|exemption)$/, outcome: 'credit' },
+  { pattern: /^(supplementary|supp)/, outcome: 'supplementary' },
+];
+
+const FAIL_GRADES = ['F', 'TF', 'FF'];
+
+export function getRecordOutcome(record: Pick<EnrollmentRecord, 'status' | 'mark'>): RecordOutcome {
+  const status = record.status.trim().toLowerCase();
+  const outcome = STATUS_OUTCOMES.find(entry => entry.pattern.test(status))?.outcome ?? 'unknown';
+  // A result that has not been released yet is still in progress
+  if (outcome === 'graded' && record.mark === undefined && !isFailRecord(record)) return 'in-progress';
+  return outcome;
+}
+
+function isFailRecord(record: Pick<EnrollmentRecord, 'status'> & { grade?: string }): boolean {
+  return FAIL_STATUS_PATTERN.test(record.status.trim().toLowerCase()) || FAIL_GRADES.includes(record.grade ?? '');
+}
+
+export function countRecordOutcomes(records: EnrollmentRecord[]): Record<RecordOutcome, number> {
+  const counts: Record<RecordOutcome, number> = {
+    graded: 0,
+    'in-progress': 0,
+    withdrawn: 0,
+    credit: 0,
+    supplementary: 0,
+    unknown: 0,
+  };
+  records.forEach(record => {
+    counts[getRecordOutcome(record)]++;
+  });
+  return counts;
+}
+
+// Fold supplementary results into the attempt they replace. The supplementary
+// mark overwrites the latest earlier attempt of the same subject; with no
+// earlier attempt it stands as a graded result on its own.
+export function resolveSupplementaryRecords(records: EnrollmentRecord[]): EnrollmentRecord[] {
+  const resolved = records.map(record => ({ ...record }));
+  const replaced = new Set<EnrollmentRecord>();
+
+  resolved.forEach(record => {
+    if (getRecordOutcome(record) !== 'supplementary' || record.mark === undefined) return;
+
+    const original = resolved
+      .filter(other => other !== record && other.subjectCode === record.subjectCode && getRecordOutcome(other) === 'graded')
+      .filter(other => compareYearSession(other.year, other.session, record.year, record.session) <= 0)
+      // Records can arrive in any order, so find the latest attempt by date
+      .sort((a, b) => compareYearSession(a.year, a.session, b.year, b.session))
+      .pop();
+
+    if (original) {
+      original.mark = record.mark;
+      original.grade = record.grade;
+      original.status = 'Complete';
+      replaced.add(record);
+    } else {
+      record.status = 'Complete';
+    }
+  });
+
+  return resolved.filter(record => !replaced.has(record));
+}
+
+// Graded records as calculator subjects; a fail with no released mark counts as zero
+function toGradedSubjects(records: EnrollmentRecord[]): Subject[] {
+  return resolveSupplementaryRecords(records)
+    .filter(record => getRecordOutcome(record) === 'graded')
+    .map(record => ({
+      id: record.subjectCode,
+      code: record.subjectCode,
+      creditPoints: record.nomCP.toString(),
+      mark: (record.mark ?? 0).toString()
+    }));
+}
+
+// Patterns for the columns of a SOLS enrollment record line
+const YEAR_PATTERN = /^\d{4}$/;
+const SUBJECT_CODE_PATTERN = /^[A-Z]{2,5}\d{3}[A-Z]?$/i;
+const GRADE_PATTERN = /^[A-Z]{1,3}\+?$/;
+const SESSION_KEYWORD_PATTERN = /^(Summer|Autumn|Winter|Spring|Annual|Trimester|Session)$/i;
+const HEADER_PATTERN = /\bsubject\s*code\b|\bnomcp\b/i;
+
+// The raw columns of one line, before validation
+interface RawRecordFields {
+  year: string;
+  session: string;
+  campus?: string;
+  subjectCode: string;
+  nomCP: string;
+  mark: string;
+  grade: string;
+  status: string;
+}
+
+// Turn columns into a record, noting anything suspicious as a warning
+function buildRecord(fields: RawRecordFields, line: number, warn: (message: string) => void): EnrollmentRecord {
+  let nomCP = parseInt(fields.nomCP, 10);
+  if (isNaN(nomCP) || !/^\d+$/.test(fields.nomCP)) {
+    warn(`NomCP "${fields.nomCP}" is not a whole number; enter the credit points after importing`);
+    nomCP = 0;
+  }
+
+  let mark: number | undefined = fields.mark ? parseFloat(fields.mark) : undefined;
+  if (mark !== undefined && (isNaN(mark) || mark < 0 || mark > 100)) {
+    warn(`Mark "${fields.mark}" is not between 0 and 100 and was ignored`);
+    mark = undefined;
+  }
+
+  const grade = fields.grade || undefined;
+  if (mark !== undefined && !grade) {
+    warn('Has a mark but no grade');
+  }
+  const outcome = getRecordOutcome({ status: fields.status, mark });
+  if (outcome === 'unknown') {
+    warn(`Status "${fields.status}" is not recognised, so this subject will not be imported`);
+  } else if (/^completed?$/i.test(fields.status.trim()) && mark === undefined) {
+    warn('Is marked Complete but has no mark, so it will not count towards WAM');
+  } else if (outcome === 'supplementary' && mark === undefined) {
+    warn('Supplementary result has no mark, so the original mark is kept');
+  }
+
+  return {
+    line,
+    year: fields.year,
+    session: fields.session,
+    campus: fields.campus,
+    subjectCode: fields.subjectCode.toUpperCase(),
+    nomCP,
+    mark,
+    grade,
+    status: fields.status,
+  };
+}
+
+// Columns separated by tabs (or runs of spaces) in the standard order:
+// Year, Session, Campus/Delivery, Subject Code, NomCP, Mark, Grade, Status
+function splitColumns(line: string): RawRecordFields | null {
+  const parts = (line.includes('\t') ? line.split('\t') : line.split(/\s{2,}/)).map(part => part.trim());
+  if (parts.length < 8) return null;
+
+  const [year, session, campus, subjectCode, nomCP, mark, grade, ...status] = parts;
+  return { year, session, campus: campus || undefined, subjectCode, nomCP, mark, grade, status: status.join(' ').trim() };
+}
+
+// Fallback for lines whose separators were lost, located by the subject code token
+function splitTokens(line: string): RawRecordFields | string {
+  const tokens = line.trim().split(/\s+/);
+  const codeIndex = tokens.findIndex((token, index) => index > 0 && SUBJECT_CODE_PATTERN.test(token));
+  if (codeIndex === -1) return 'No subject code found (expected something like CSCI203)';
+
+  const [year, ...beforeCode] = tokens.slice(0, codeIndex);
+  const afterCode = tokens.slice(codeIndex + 1);
+  if (afterCode.length < 2) return 'Missing NomCP or status after the subject code';
+
+  // Campus starts at the first token with a slash ("Dubai/ On Campus"), otherwise after the session name
+  let campusIndex = beforeCode.findIndex(token => token.includes('/'));
+  if (campusIndex === -1) {
+    const keywordIndex = beforeCode.findIndex(token => SESSION_KEYWORD_PATTERN.test(token));
+    campusIndex = keywordIndex === -1 ? beforeCode.length : keywordIndex + 1;
+  }
+  const session = beforeCode.slice(0, campusIndex).join(' ');
+  const campus = beforeCode.slice(campusIndex).join(' ') || undefined;
+
+  const [nomCP, ...rest] = afterCode;
+  let mark = '';
+  let grade = '';
+  if (rest.length > 1 && !isNaN(parseFloat(rest[0]))) mark = rest.shift()!;
+  if (rest.length > 1 && GRADE_PATTERN.test(rest[0])) grade = rest.shift()!;
+
+  return { year, session, campus, subjectCode: tokens[codeIndex], nomCP, mark, grade, status: rest.join(' ') };
+}
+
+// Parse the raw enrollment record text, explaining every line that could not be used
+export function parseEnrollmentRecord(inputText: string): EnrollmentParseResult {
+  const records: EnrollmentRecord[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+
+  inputText.split('\n').forEach((text, index) => {
+    const line = index + 1;
+    if (!text.trim() || HEADER_PATTERN.test(text)) return;
+
+    const reject = (message: string) => diagnostics.push({ line, severity: 'error', message, text });
+    const warn = (message: string) => diagnostics.push({ line, severity: 'warning', message, text });
+
+    const fields = splitColumns(text) ?? splitTokens(text);
+    if (typeof fields === 'string') {
+      reject(fields);
+      return;
+    }
+    if (!YEAR_PATTERN.test(fields.year)) {
+      reject(`"${fields.year}" is not a year`);
+      return;
+    }
+    if (!fields.session) {
+      reject('Missing session');
+      return;
+    }
+    if (!SUBJECT_CODE_PATTERN.test(fields.subjectCode)) {
+      reject(`"${fields.subjectCode}" does not look like a subject code`);
+      return;
+    }
+    if (!fields.status) {
+      reject('Missing status');
+      return;
+    }
+
+    records.push(buildRecord(fields, line, warn));
+  });
+
+  return { records, diagnostics };
 }
 
 // Group enrollment records by semester
@@ -93,7 +300,7 @@ export function groupBySemester(records: EnrollmentRecord[]): ParsedSemester[] {
   const semesterMap = new Map<string, EnrollmentRecord[]>();
   
   // Group records by year and session
-  records.forEach(record => {
+  resolveSupplementaryRecords(records).forEach(record => {
     const key = `${record.year}-${record.session}`;
     if (!semesterMap.has(key)) {
       semesterMap.set(key, []);
@@ -109,46 +316,35 @@ export function groupBySemester(records: EnrollmentRecord[]): ParsedSemester[] {
   const sortedKeys = Array.from(semesterMap.keys()).sort((a, b) => {
     const [yearA, sessionA] = a.split('-');
     const [yearB, sessionB] = b.split('-');
-    
-    if (yearA !== yearB) {
-      return parseInt(yearA) - parseInt(yearB);
-    }
-    
-    // Sort sessions within the same year
-    const sessionOrder = ['Summer', 'Autumn', 'Winter', 'Spring'];
-    const getSessionPriority = (session: string) => {
-      for (let i = 0; i < sessionOrder.length; i++) {
-        if (session.includes(sessionOrder[i])) {
-          return i;
-        }
-      }
-      return 999; // Unknown session goes last
-    };
-    
-    return getSessionPriority(sessionA) - getSessionPriority(sessionB);
+    return compareYearSession(yearA, sessionA, yearB, sessionB);
   });
   
   sortedKeys.forEach(key => {
     const [year, session] = key.split('-');
     const records = semesterMap.get(key)!;
     
-    // Filter only completed subjects for the calculator
-    const completedSubjects = records.filter(record => 
-      record.status === 'Complete' && record.mark !== undefined
-    );
+    // Graded subjects carry their mark; in-progress and credit-only ones come in unmarked
+    const importedRecords = records.filter(record => {
+      const outcome = getRecordOutcome(record);
+      return outcome === 'graded' || outcome === 'in-progress' || outcome === 'credit';
+    });
     
-    if (completedSubjects.length > 0) {
+    if (importedRecords.length > 0) {
       const semester: ParsedSemester = {
         id: generateUniqueId(),
         name: `${year} ${session}`,
         year,
         session,
-        subjects: completedSubjects.map(record => ({
-          id: generateUniqueId(),
-          code: record.subjectCode,
-          creditPoints: record.nomCP.toString(),
-          mark: record.mark?.toString() || ''
-        })),
+        subjects: importedRecords.map(record => {
+          const outcome = getRecordOutcome(record);
+          return {
+            id: generateUniqueId(),
+            code: record.subjectCode,
+            creditPoints: record.nomCP > 0 ? record.nomCP.toString() : '',
+            mark: outcome === 'graded' ? (record.mark ?? 0).toString() : '',
+            ...(outcome === 'credit' ? { kind: 'credit' as const, creditSource: '' } : {})
+          };
+        }),
         order: order++
       };
       
@@ -161,76 +357,33 @@ export function groupBySemester(records: EnrollmentRecord[]): ParsedSemester[] {
 
 // Calculate WAM from enrollment records
 export function calculateWAM(records: EnrollmentRecord[]): number {
-  const completedRecords = records.filter(record => 
-    record.status === 'Complete' && record.mark !== undefined
-  );
-  
-  if (completedRecords.length === 0) {
-    return 0;
-  }
-  
-  const totalMarks = completedRecords.reduce((sum, record) => 
-    sum + (record.mark! * record.nomCP), 0
-  );
-  
-  const totalCredits = completedRecords.reduce((sum, record) => 
-    sum + record.nomCP, 0
-  );
-  
-  return totalCredits > 0 ? totalMarks / totalCredits : 0;
+  return calculateSubjectsWAM(toGradedSubjects(records));
 }
 
 // Calculate GPA from enrollment records
-export function calculateGPA(records: EnrollmentRecord[]): number {
-  const markToGPA = (mark: number): number => {
-    if (mark >= 85) return 4.0;
-    if (mark >= 75) return 3.7;
-    if (mark >= 65) return 3.0;
-    if (mark >= 50) return 2.0;
-    return 0.0;
-  };
-  
-  const completedRecords = records.filter(record => 
-    record.status === 'Complete' && record.mark !== undefined
-  );
-  
-  if (completedRecords.length === 0) {
-    return 0;
-  }
-  
-  const totalWeightedGPA = completedRecords.reduce((sum, record) => 
-    sum + (markToGPA(record.mark!) * record.nomCP), 0
-  );
-  
-  const totalCredits = completedRecords.reduce((sum, record) => 
-    sum + record.nomCP, 0
-  );
-  
-  return totalCredits > 0 ? totalWeightedGPA / totalCredits : 0;
+export function calculateGPA(records: EnrollmentRecord[], bands: GradeBand[]): number {
+  return calculateSubjectsGPA(toGradedSubjects(records), bands);
 }
 
-// Get credit breakdown by level
+// Get credit breakdown by level: passed subjects plus advanced standing
 export function getCreditBreakdown(records: EnrollmentRecord[]): {
   credit100: number;
   credit200: number;
   credit300: number;
 } {
-  const completedRecords = records.filter(record => 
-    record.status === 'Complete'
-  );
+  const completedRecords = resolveSupplementaryRecords(records).filter(record => {
+    const outcome = getRecordOutcome(record);
+    return outcome === 'credit' || (outcome === 'graded' && !isFailRecord(record));
+  });
   
-  const credit100 = completedRecords
-    .filter(record => /.*1\d{2}$/.test(record.subjectCode))
-    .reduce((sum, record) => sum + record.nomCP, 0);
-    
-  const credit200 = completedRecords
-    .filter(record => /.*2\d{2}$/.test(record.subjectCode))
-    .reduce((sum, record) => sum + record.nomCP, 0);
-    
-  const credit300 = completedRecords
-    .filter(record => /.*3\d{2}$/.test(record.subjectCode))
+  const creditsAtLevel = (level: number) => completedRecords
+    .filter(record => getSubjectLevel(record.subjectCode) === level)
     .reduce((sum, record) => sum + record.nomCP, 0);
   
+  const credit100 = creditsAtLevel(1);
+  const credit200 = creditsAtLevel(2);
+  const credit300 = creditsAtLevel(3);
+  
   return { credit100, credit200, credit300 };
 }
 
@@ -0,0 +1,197 @@
+// WAM forecasting
+// Simulates many possible outcomes for the upcoming subjects to show how the
+// cumulative WAM and award classification are likely to land, rather than a
+// single deterministic answer. Each subject's mark is drawn from a triangular
+// distribution between a low and high mark, peaking at the expected mark.
+
+import { getGradedSubjects, getWAMTotals, type Subject } from './academic-engine';
+import { calculateClassification, sortClassificationBands, type ClassificationScheme } from './classification';
+import { getSubjectDiscipline, getSubjectLevel } from './subject-codes';
+
+export interface MarkRange {
+  low: number;
+  expected: number;
+  high: number;
+}
+
+// Where a derived range came from, from most to least specific
+export type RangeBasis = 'discipline-level' | 'level' | 'all' | 'default';
+
+export interface ForecastSubject {
+  id: string;
+  code: string;
+  creditPoints: number;
+  range: MarkRange;
+  // Subjects in the same group finish together, e.g. one semester
+  group: string;
+}
+
+export interface ForecastStep {
+  label: string;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface BandProbability {
+  bandId: string;
+  name: string;
+  // Chance of finishing in this band or a higher one
+  probability: number;
+}
+
+export interface ForecastResult {
+  runs: number;
+  // Cumulative WAM percentiles now and after each group of subjects
+  steps: ForecastStep[];
+  bandProbabilities: BandProbability[];
+}
+
+export const DEFAULT_FORECAST_RUNS = 2000;
+
+// Used when there is no history to derive a range from
+const DEFAULT_RANGE: MarkRange = { low: 50, expected: 65, high: 80 };
+// Spread used when only one earlier mark is available
+const DEFAULT_SPREAD = 8;
+
+const clampMark = (mark: number) => Math.min(100, Math.max(0, mark));
+const roundMark = (mark: number) => Math.round(mark * 10) / 10;
+
+// Derive a range from the student's own marks: mean ± one standard deviation
+// of the closest matching subjects (same discipline and level, then same
+// level, then everything)
+export function deriveMarkRange(code: string, history: Subject[]): { range: MarkRange; basis: RangeBasis } {
+  const graded = getGradedSubjects(history, []);
+  const level = getSubjectLevel(code);
+  const discipline = getSubjectDiscipline(code);
+
+  const candidates: [RangeBasis, number[]][] = [
+    [
+      'discipline-level',
+      graded
+        .filter((subject) => getSubjectLevel(subject.code) === level && getSubjectDiscipline(subject.code) === discipline)
+        .map((subject) => subject.mark),
+    ],
+    ['level', graded.filter((subject) => getSubjectLevel(subject.code) === level).map((subject) => subject.mark)],
+    ['all', graded.map((subject) => subject.mark)],
+  ];
+  const match = candidates.find(([basis, marks]) => marks.length > 0 && (basis !== 'level' || level !== null));
+  if (!match) return { range: DEFAULT_RANGE, basis: 'default' };
+
+  const [basis, marks] = match;
+  const mean = marks.reduce((sum, mark) => sum + mark, 0) / marks.length;
+  const spread =
+    marks.length > 1
+      ? Math.sqrt(marks.reduce((sum, mark) => sum + (mark - mean) ** 2, 0) / (marks.length - 1))
+      : DEFAULT_SPREAD;
+
+  return {
+    range: {
+      low: roundMark(clampMark(mean - spread)),
+      expected: roundMark(mean),
+      high: roundMark(clampMark(mean + spread)),
+    },
+    basis,
+  };
+}
+
+export function isValidMarkRange(range: MarkRange): boolean {
+  return range.low >= 0 && range.high <= 100 && range.low <= range.expected && range.expected <= range.high;
+}
+
+// Small seeded generator so a forecast can be reproduced
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleTriangular({ low, expected, high }: MarkRange, random: () => number): number {
+  if (high === low) return low;
+  const u = random();
+  const split = (expected - low) / (high - low);
+  return u < split
+    ? low + Math.sqrt(u * (high - low) * (expected - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - expected));
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[index];
+}
+
+export function runForecast(
+  completed: Subject[],
+  upcoming: ForecastSubject[],
+  scheme: ClassificationScheme,
+  runs = DEFAULT_FORECAST_RUNS,
+  seed = 1,
+): ForecastResult {
+  const random = createRandom(seed);
+  const groups = Array.from(new Set(upcoming.map((subject) => subject.group)));
+  const current = getWAMTotals(completed);
+  const bands = sortClassificationBands(scheme.bands);
+
+  // WAM after each group, per run
+  const wamsByStep: number[][] = groups.map(() => []);
+  const bandCounts = new Map(bands.map((band) => [band.id, 0]));
+
+  for (let run = 0; run < runs; run++) {
+    let credits = current.credits;
+    let weightedMarks = current.weightedMarks;
+    const sampled: Subject[] = [];
+
+    groups.forEach((group, stepIndex) => {
+      upcoming
+        .filter((subject) => subject.group === group)
+        .forEach((subject) => {
+          const mark = sampleTriangular(subject.range, random);
+          credits += subject.creditPoints;
+          weightedMarks += subject.creditPoints * mark;
+          sampled.push({ id: subject.id, code: subject.code, creditPoints: subject.creditPoints.toString(), mark: mark.toFixed(2) });
+        });
+      wamsByStep[stepIndex].push(credits > 0 ? weightedMarks / credits : 0);
+    });
+
+    const { band } = calculateClassification([...completed, ...sampled], scheme);
+    if (!band) continue;
+    // Finishing in a band also counts as reaching every band below it
+    bands.slice(bands.findIndex((b) => b.id === band.id)).forEach((reached) => {
+      bandCounts.set(reached.id, (bandCounts.get(reached.id) ?? 0) + 1);
+    });
+  }
+
+  const currentWAM = current.credits > 0 ? current.weightedMarks / current.credits : 0;
+  const steps: ForecastStep[] = [
+    { label: 'Now', p5: currentWAM, p25: currentWAM, p50: currentWAM, p75: currentWAM, p95: currentWAM },
+    ...groups.map((group, stepIndex) => {
+      const sorted = [...wamsByStep[stepIndex]].sort((a, b) => a - b);
+      return {
+        label: group,
+        p5: percentile(sorted, 5),
+        p25: percentile(sorted, 25),
+        p50: percentile(sorted, 50),
+        p75: percentile(sorted, 75),
+        p95: percentile(sorted, 95),
+      };
+    }),
+  ];
+
+  return {
+    runs,
+    steps,
+    bandProbabilities: bands.map((band) => ({
+      bandId: band.id,
+      name: band.name,
+      probability: runs > 0 ? (bandCounts.get(band.id) ?? 0) / runs : 0,
+    })),
+  };
+}
@@ -0,0 +1,149 @@
+// Grade band definitions
+// Each band maps a mark range to a grade, a grade point and a display colour.
+// Bands are user-editable, so nothing else should hard-code the cutoffs.
+
+import { z } from 'zod';
+
+export type GradeColor = 'emerald' | 'lime' | 'blue' | 'indigo' | 'purple' | 'amber' | 'orange' | 'red' | 'gray';
+
+export interface GradeBand {
+  id: string;
+  grade: string;
+  label: string;
+  minMark: number;
+  gradePoint: number;
+  color: GradeColor;
+  isFail: boolean;
+}
+
+export const DEFAULT_GRADE_BANDS: GradeBand[] = [
+  { id: 'hd', grade: 'HD', label: 'High Distinction', minMark: 85, gradePoint: 4, color: 'emerald', isFail: false },
+  { id: 'd', grade: 'D', label: 'Distinction', minMark: 75, gradePoint: 3.7, color: 'lime', isFail: false },
+  { id: 'c', grade: 'C', label: 'Credit', minMark: 65, gradePoint: 3.3, color: 'blue', isFail: false },
+  { id: 'p', grade: 'P', label: 'Pass', minMark: 50, gradePoint: 2, color: 'indigo', isFail: false },
+  { id: 'tf', grade: 'TF', label: 'Technical Fail', minMark: 49, gradePoint: 0, color: 'orange', isFail: true },
+  { id: 'f', grade: 'F', label: 'Fail', minMark: 0, gradePoint: 0, color: 'red', isFail: true },
+];
+
+export const GRADE_COLORS: GradeColor[] = ['emerald', 'lime', 'blue', 'indigo', 'purple', 'amber', 'orange', 'red', 'gray'];
+
+// Full class names so Tailwind can see them at build time
+export const GRADE_COLOR_CLASSES: Record<GradeColor, string> = {
+  emerald: 'text-emerald-600 dark:text-emerald-400',
+  lime: 'text-lime-600 dark:text-lime-400',
+  blue: 'text-blue-600 dark:text-blue-400',
+  indigo: 'text-indigo-600 dark:text-indigo-400',
+  purple: 'text-purple-600 dark:text-purple-400',
+  amber: 'text-amber-600 dark:text-amber-400',
+  orange: 'text-orange-600 dark:text-orange-400',
+  red: 'text-red-600 dark:text-red-400',
+  gray: 'text-gray-600 dark:text-gray-400',
+};
+
+// Bands ordered from the highest cutoff to the lowest
+export function sortGradeBands(bands: GradeBand[]): GradeBand[] {
+  return [...bands].sort((a, b) => b.minMark - a.minMark);
+}
+
+// Find the band a mark falls into, or undefined when no band covers it
+export function getBandForMark(mark: number, bands: GradeBand[]): GradeBand | undefined {
+  return sortGradeBands(bands).find((band) => mark >= band.minMark);
+}
+
+export function getBandByGrade(grade: string, bands: GradeBand[]): GradeBand | undefined {
+  return bands.find((band) => band.grade === grade);
+}
+
+export function getGradeColorClass(grade: string, bands: GradeBand[]): string {
+  if (!grade) return 'text-gray-400 dark:text-gray-500';
+  const band = getBandByGrade(grade, bands);
+  return band ? GRADE_COLOR_CLASSES[band.color] : GRADE_COLOR_CLASSES.gray;
+}
+
+// Human readable mark range for a band, e.g. "75-84" or "49"
+export function formatBandRange(band: GradeBand, bands: GradeBand[]): string {
+  const sorted = sortGradeBands(bands);
+  const index = sorted.findIndex((b) => b.id === band.id);
+  const next = index > 0 ? sorted[index - 1] : undefined;
+  if (!next) return `${band.minMark}-100`;
+
+  const step = Number.isInteger(band.minMark) && Number.isInteger(next.minMark) ? 1 : 0.01;
+  const upper = Number((next.minMark - step).toFixed(2));
+  return upper <= band.minMark ? `${band.minMark}` : `${band.minMark}-${upper}`;
+}
+
+// Problems that would leave marks without a grade or make grades ambiguous
+export function validateGradeBands(bands: GradeBand[]): string[] {
+  const errors: string[] = [];
+  const grades = new Set<string>();
+  const cutoffs = new Set<number>();
+
+  if (bands.length === 0) {
+    errors.push('At least one grade band is required.');
+    return errors;
+  }
+
+  bands.forEach((band) => {
+    const grade = band.grade.trim();
+    if (!grade) {
+      errors.push('Every band needs a grade name.');
+    } else if (grades.has(grade)) {
+      errors.push(`Grade "${grade}" is defined more than once.`);
+    }
+    grades.add(grade);
+
+    if (isNaN(band.minMark) || band.minMark < 0 || band.minMark > 100) {
+      errors.push(`Minimum mark for ${grade || 'a band'} must be between 0 and 100.`);
+    } else if (cutoffs.has(band.minMark)) {
+      errors.push(`More than one band starts at ${band.minMark}.`);
+    }
+    cutoffs.add(band.minMark);
+  });
+
+  if (!bands.some((band) => band.minMark === 0)) {
+    errors.push('The lowest band should start at 0 so every mark receives a grade.');
+  }
+
+  return errors;
+}
+
+export const GradeBandSchema = z.object({
+  id: z.string(),
+  grade: z.string(),
+  label: z.string().default(''),
+  minMark: z.number().min(0).max(100),
+  gradePoint: z.number(),
+  color: z.enum(GRADE_COLORS as [GradeColor, ...GradeColor[]]),
+  isFail: z.boolean(),
+});
+
+export function isGradeBand(value: unknown): value is GradeBand {
+  return GradeBandSchema.safeParse(value).success;
+}
+
+// Restore bands from localStorage, carrying over grade points saved by the
+// older `{ HD: 4, D: 3.7, ... }` grading system setting
+export function restoreGradeBands(savedBands: string | null, savedGradingSystem: string | null): GradeBand[] {
+  if (savedBands) {
+    try {
+      const parsed = JSON.parse(savedBands);
+      const result = z.array(GradeBandSchema).nonempty().safeParse(parsed);
+      if (result.success) return result.data;
+    } catch (e) {
+      console.error('Failed to load saved grade bands:', e);
+    }
+  }
+
+  if (savedGradingSystem) {
+    try {
+      const gradePoints: Record<string, number> = JSON.parse(savedGradingSystem);
+      return DEFAULT_GRADE_BANDS.map((band) =>
+        typeof gradePoints[band.grade] === 'number' ? { ...band, gradePoint: gradePoints[band.grade] } : band
+      );
+    } catch (e) {
+      console.error('Failed to load saved grading system:', e);
+    }
+  }
+
+  return DEFAULT_GRADE_BANDS;
+}
@@ -0,0 +1,157 @@
+// Grading scheme registry
+// A scheme is a named set of grade bands plus the GPA scale it reports on.
+// Presets are read-only; users duplicate them to make their own.
+
+import { z } from 'zod';
+import { DEFAULT_GRADE_BANDS, GradeBandSchema, restoreGradeBands, sortGradeBands, type GradeBand } from './grade-bands';
+import { generateUniqueId } from './utils';
+
+export interface GradingScheme {
+  id: string;
+  name: string;
+  description: string;
+  // Maximum grade point, or null for schemes that only report WAM
+  gpaScale: number | null;
+  bands: GradeBand[];
+}
+
+export const SCHEME_FILE_TYPE = 'wam-calculator-grading-scheme';
+
+export const PRESET_SCHEMES: GradingScheme[] = [
+  {
+    id: 'uowd-4',
+    name: 'UOWD 4.0 scale',
+    description: 'University of Wollongong in Dubai grade points out of 4.0',
+    gpaScale: 4,
+    bands: DEFAULT_GRADE_BANDS,
+  },
+  {
+    id: 'uow-7',
+    name: 'UOW Australia 7.0 scale',
+    description: 'University of Wollongong (Australia) grade points out of 7.0',
+    gpaScale: 7,
+    bands: [
+      { id: 'hd', grade: 'HD', label: 'High Distinction', minMark: 85, gradePoint: 7, color: 'emerald', isFail: false },
+      { id: 'd', grade: 'D', label: 'Distinction', minMark: 75, gradePoint: 6, color: 'lime', isFail: false },
+      { id: 'c', grade: 'C', label: 'Credit', minMark: 65, gradePoint: 5, color: 'blue', isFail: false },
+      { id: 'p', grade: 'P', label: 'Pass', minMark: 50, gradePoint: 4, color: 'indigo', isFail: false },
+      { id: 'tf', grade: 'TF', label: 'Technical Fail', minMark: 49, gradePoint: 0, color: 'orange', isFail: true },
+      { id: 'f', grade: 'F', label: 'Fail', minMark: 0, gradePoint: 0, color: 'red', isFail: true },
+    ],
+  },
+  {
+    id: 'percentage',
+    name: 'Percentage only',
+    description: 'Pass/fail at 50 with no grade points; only WAM is reported',
+    gpaScale: null,
+    bands: [
+      { id: 'p', grade: 'P', label: 'Pass', minMark: 50, gradePoint: 0, color: 'indigo', isFail: false },
+      { id: 'f', grade: 'F', label: 'Fail', minMark: 0, gradePoint: 0, color: 'red', isFail: true },
+    ],
+  },
+];
+
+export const DEFAULT_GRADING_SCHEME = PRESET_SCHEMES[0];
+
+export function isPresetScheme(schemeId: string): boolean {
+  return PRESET_SCHEMES.some((scheme) => scheme.id === schemeId);
+}
+
+// Presets first, then the user's own schemes
+export function getAllSchemes(customSchemes: GradingScheme[]): GradingScheme[] {
+  return [...PRESET_SCHEMES, ...customSchemes];
+}
+
+export function createCustomScheme(bands: GradeBand[], name = 'Custom'): GradingScheme {
+  return {
+    id: generateUniqueId(),
+    name,
+    description: '',
+    gpaScale: Math.max(0, ...bands.map((band) => band.gradePoint)) || null,
+    bands,
+  };
+}
+
+export function duplicateScheme(scheme: GradingScheme): GradingScheme {
+  return { ...scheme, id: generateUniqueId(), name: `${scheme.name} (copy)`, bands: scheme.bands.map((band) => ({ ...band })) };
+}
+
+export const GradingSchemeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().default(''),
+  gpaScale: z.number().positive().nullable(),
+  bands: z.array(GradeBandSchema).nonempty(),
+});
+
+export function isGradingScheme(value: unknown): value is GradingScheme {
+  return GradingSchemeSchema.safeParse(value).success;
+}
+
+// JSON file content used to share a single scheme
+export function serializeGradingScheme(scheme: GradingScheme): string {
+  return JSON.stringify({ type: SCHEME_FILE_TYPE, scheme }, null, 2);
+}
+
+// Parse a shared scheme file; accepts the wrapped file format or a bare scheme
+export function parseGradingSchemeFile(text: string): GradingScheme | null {
+  const parsed = JSON.parse(text);
+  const result = GradingSchemeSchema.safeParse(parsed?.type === SCHEME_FILE_TYPE ? parsed.scheme : parsed);
+  return result.success ? result.data : null;
+}
+
+export function hasSameBands(a: GradingScheme, b: GradingScheme): boolean {
+  return a.gpaScale === b.gpaScale && JSON.stringify(sortGradeBands(a.bands)) === JSON.stringify(sortGradeBands(b.bands));
+}
+
+// Take in a scheme received from someone else. A preset id is only trusted when
+// the bands still match our preset; otherwise it becomes a custom scheme.
+export function adoptScheme(scheme: GradingScheme): GradingScheme {
+  const received = { ...scheme, description: scheme.description ?? '' };
+  const preset = PRESET_SCHEMES.find((s) => s.id === received.id);
+  if (!preset) return received;
+  return hasSameBands(preset, received) ? preset : { ...duplicateScheme(received), name: received.name };
+}
+
+// Add or replace a scheme in the custom list, leaving presets untouched
+export function upsertCustomScheme(customSchemes: GradingScheme[], scheme: GradingScheme): GradingScheme[] {
+  if (isPresetScheme(scheme.id)) return customSchemes;
+  const exists = customSchemes.some((s) => s.id === scheme.id);
+  return exists ? customSchemes.map((s) => (s.id === scheme.id ? scheme : s)) : [...customSchemes, scheme];
+}
+
+// Restore the active scheme from localStorage, falling back to the older
+// grade band and grading system settings so existing users keep their values
+export function restoreGradingScheme(
+  savedScheme: string | null,
+  savedBands: string | null,
+  savedGradingSystem: string | null,
+): GradingScheme {
+  if (savedScheme) {
+    try {
+      const result = GradingSchemeSchema.safeParse(JSON.parse(savedScheme));
+      if (result.success) return result.data;
+    } catch (e) {
+      console.error('Failed to load saved grading scheme:', e);
+    }
+  }
+
+  const bands = restoreGradeBands(savedBands, savedGradingSystem);
+  const isDefault = JSON.stringify(bands) === JSON.stringify(DEFAULT_GRADE_BANDS);
+  return isDefault ? DEFAULT_GRADING_SCHEME : createCustomScheme(bands);
+}
+
+export function restoreCustomSchemes(savedSchemes: string | null): GradingScheme[] {
+  if (!savedSchemes) return [];
+  try {
+    const parsed = JSON.parse(savedSchemes);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((scheme) => {
+      const result = GradingSchemeSchema.safeParse(scheme);
+      return result.success ? [result.data] : [];
+    });
+  } catch (e) {
+    console.error('Failed to load saved grading schemes:', e);
+    return [];
+  }
+}
@@ -0,0 +1,84 @@
+// Per-level and per-discipline analytics
+// Groups subjects by the level and discipline in their codes so the summary and
+// course planning screens can show level WAMs and check level credit minimums.
+
+import { calculateCreditsCompleted, calculateWAM, countGradedSubjects, type Subject } from './academic-engine';
+import type { GradeBand } from './grade-bands';
+import { formatLevel, getSubjectDiscipline, getSubjectLevel } from './subject-codes';
+
+export interface LevelSummary {
+  level: number | null;
+  label: string;
+  credits: number;
+  // null when no subject at this level has a mark yet
+  wam: number | null;
+  gradedCount: number;
+}
+
+export interface LevelMinimumCheck {
+  level: number;
+  label: string;
+  required: number;
+  completed: number;
+  isMet: boolean;
+}
+
+function groupBy<K>(subjects: Subject[], getKey: (subject: Subject) => K): Map<K, Subject[]> {
+  const groups = new Map<K, Subject[]>();
+  subjects
+    .filter((subject) => subject.code.trim())
+    .forEach((subject) => {
+      const key = getKey(subject);
+      groups.set(key, [...(groups.get(key) ?? []), subject]);
+    });
+  return groups;
+}
+
+// One summary per level present, lowest level first and uncoded subjects last
+export function getLevelSummaries(subjects: Subject[], bands: GradeBand[]): LevelSummary[] {
+  return Array.from(groupBy(subjects, (subject) => getSubjectLevel(subject.code)))
+    .sort(([a], [b]) => (a ?? Infinity) - (b ?? Infinity))
+    .map(([level, levelSubjects]) => {
+      const gradedCount = countGradedSubjects(levelSubjects);
+      return {
+        level,
+        label: formatLevel(level),
+        credits: calculateCreditsCompleted(levelSubjects, bands),
+        wam: gradedCount > 0 ? calculateWAM(levelSubjects) : null,
+        gradedCount,
+      };
+    });
+}
+
+// Completed credits per discipline prefix, largest first
+export function getDisciplineCredits(subjects: Subject[], bands: GradeBand[]): { discipline: string; credits: number }[] {
+  return Array.from(groupBy(subjects, (subject) => getSubjectDiscipline(subject.code) ?? 'Other'))
+    .map(([discipline, disciplineSubjects]) => ({
+      discipline,
+      credits: calculateCreditsCompleted(disciplineSubjects, bands),
+    }))
+    .filter((entry) => entry.credits > 0)
+    .sort((a, b) => b.credits - a.credits);
+}
+
+// Compare completed credits at each level with the configured minimums
+export function checkLevelMinimums(
+  subjects: Subject[],
+  bands: GradeBand[],
+  minimums: Record<string, number>,
+): LevelMinimumCheck[] {
+  const summaries = getLevelSummaries(subjects, bands);
+  return Object.entries(minimums)
+    .filter(([, required]) => required > 0)
+    .map(([level, required]) => {
+      const completed = summaries.find((summary) => summary.level === Number(level))?.credits ?? 0;
+      return {
+        level: Number(level),
+        label: formatLevel(Number(level)),
+        required,
+        completed,
+        isMet: completed >= required,
+      };
+    })
+    .sort((a, b) => a.level - b.level);
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GRADING_SCHEME, PRESET_SCHEMES } from './grading-schemes';
+import { CURRENT_SCHEMA_VERSION, DEFAULT_SETTINGS, migrateAppData, parseAppData } from './persistence';
+
+const fallbackScheme = PRESET_SCHEMES[1];
+
+const semester = (subjects: unknown[]) => ({
+  id: 'sem-1',
+  name: 'Semester 1',
+  subjects,
+  createdAt: '2024-02-01T00:00:00.000Z',
+  order: 0,
+});
+
+const subject = { id: 'sub-1', code: 'csit111', creditPoints: '6', mark: '78' };
+
+describe('parseAppData', () => {
+  it('upgrades a v0 bare semester array with the fallback scheme', () => {
+    const { data, issues, migratedFrom } = parseAppData([semester([subject])], fallbackScheme);
+
+    expect(migratedFrom).toBe(0);
+    expect(issues).toEqual([]);
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data.gradingScheme).toBe(fallbackScheme);
+    expect(data.settings).toEqual(DEFAULT_SETTINGS);
+    expect(data.semesters).toHaveLength(1);
+    expect(data.semesters[0].subjects).toEqual([{ ...subject, code: 'CSIT111' }]);
+    expect(data.semesters[0].createdAt).toEqual(new Date('2024-02-01T00:00:00.000Z'));
+  });
+
+  it('upgrades a v1 export and keeps its grading scheme', () => {
+    const { data, migratedFrom } = parseAppData({ gradingScheme: DEFAULT_GRADING_SCHEME, semesters: [semester([subject])] }, fallbackScheme);
+
+    expect(migratedFrom).toBe(1);
+    expect(data.gradingScheme).toBe(DEFAULT_GRADING_SCHEME);
+    expect(data.settings).toEqual(DEFAULT_SETTINGS);
+    expect(data.semesters[0].subjects[0].mark).toBe('78');
+  });
+
+  it('refuses data from a newer schema version', () => {
+    const raw = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, gradingScheme: DEFAULT_GRADING_SCHEME, settings: {}, semesters: [] };
+    expect(() => parseAppData(raw)).toThrow(/newer version/);
+  });
+
+  it('blanks a bad mark or credit points and reports where', () => {
+    const raw = [semester([{ ...subject, mark: '105' }, { ...subject, id: 'sub-2', creditPoints: 'six' }])];
+    const { data, issues } = parseAppData(raw, fallbackScheme);
+
+    expect(data.semesters[0].subjects.map((s) => [s.creditPoints, s.mark])).toEqual([
+      ['6', ''],
+      ['', '78'],
+    ]);
+    expect(issues).toEqual([
+      { path: 'semesters[0] (Semester 1).subjects[0].mark', message: 'must be a number between 0 and 100' },
+      { path: 'semesters[0] (Semester 1).subjects[1].creditPoints', message: 'must be a whole number between 1 and 99' },
+    ]);
+  });
+});
+
+describe('migrateAppData', () => {
+  const v6 = (levelMinimumCredits: Record<string, number>) => ({
+    schemaVersion: 6,
+    gradingScheme: DEFAULT_GRADING_SCHEME,
+    settings: {
+      totalCreditsRequired: 144,
+      targetGraduationSemester: '',
+      attemptPolicy: 'all',
+      levelMinimumCredits,
+      degree: {
+        id: 'legacy',
+        name: 'Legacy degree',
+        rules: [
+          { id: 'total', type: 'total-credits', minCredits: 144 },
+          { id: 'min-200', type: 'level-minimum', level: 2, minCredits: 36 },
+          { id: 'min-300', type: 'level-minimum', level: 3, minCredits: 48 },
+        ],
+      },
+    },
+    semesters: [],
+  });
+
+  it('moves legacy level-minimum rules into the level minimum settings', () => {
+    const { data, migratedFrom } = migrateAppData(v6({}), { fallbackScheme });
+    const { settings } = parseAppData(data).data;
+
+    expect(migratedFrom).toBe(6);
+    expect(settings.levelMinimumCredits).toEqual({ 2: 36, 3: 48 });
+    expect(settings.degree?.rules).toEqual([{ id: 'total', type: 'total-credits', minCredits: 144 }]);
+    expect(settings.creditsPerSemester).toBe(DEFAULT_SETTINGS.creditsPerSemester);
+  });
+
+  it('keeps level minimums the student already set, but lets a rule fill a level left at 0', () => {
+    const { settings } = parseAppData(v6({ 2: 0, 3: 60 })).data;
+    expect(settings.levelMinimumCredits).toEqual({ 2: 36, 3: 60 });
+  });
+});
@@ -0,0 +1,396 @@
+// Versioned persistence for calculator data
+// Everything saved to localStorage or exported to a file is wrapped in an
+// envelope with a schema version. Older shapes are upgraded through a chain
+// of migrations, then validated field by field so one bad subject does not
+// cost the student the rest of their record.
+
+import { z } from 'zod';
+import type { Semester, Subject } from './academic-engine';
+import type { AttemptPolicy } from './attempt-policy';
+import { ClassificationSchemeSchema, DEFAULT_CLASSIFICATION, type ClassificationScheme } from './classification';
+import { DegreeDefinitionSchema, type DegreeDefinition } from './degree-requirements';
+import {
+  DEFAULT_GRADING_SCHEME,
+  GradingSchemeSchema,
+  adoptScheme,
+  restoreGradingScheme,
+  type GradingScheme,
+} from './grading-schemes';
+import { generateUniqueId } from './utils';
+
+export const CURRENT_SCHEMA_VERSION = 8;
+export const STORAGE_KEY = 'wam-calculator-data';
+
+export interface AppSettings {
+  totalCreditsRequired: number;
+  targetGraduationSemester: string;
+  attemptPolicy: AttemptPolicy;
+  classification: ClassificationScheme;
+  // Minimum completed credits per subject level, keyed by level digit
+  levelMinimumCredits: Record<string, number>;
+  // Normal study load, used to estimate semesters remaining
+  creditsPerSemester: number;
+  degree: DegreeDefinition | null;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  totalCreditsRequired: 144,
+  targetGraduationSemester: '',
+  attemptPolicy: 'all',
+  classification: DEFAULT_CLASSIFICATION,
+  levelMinimumCredits: {},
+  creditsPerSemester: 24,
+  degree: null,
+};
+
+export interface AppData {
+  schemaVersion: typeof CURRENT_SCHEMA_VERSION;
+  gradingScheme: GradingScheme;
+  settings: AppSettings;
+  semesters: Semester[];
+}
+
+// A problem found while loading, located by a readable path
+export interface DataIssue {
+  path: string;
+  message: string;
+}
+
+export interface LoadResult {
+  data: AppData;
+  issues: DataIssue[];
+  migratedFrom: number;
+}
+
+// Field schemas. Marks and credit points are stored as the strings the inputs hold.
+const SubjectFieldSchemas = {
+  id: z.string().min(1),
+  code: z.string().max(10, 'must be at most 10 characters'),
+  creditPoints: z
+    .string()
+    .refine((value) => value === '' || /^\d{1,2}$/.test(value), 'must be a whole number between 1 and 99'),
+  mark: z.string().refine((value) => {
+    if (value === '') return true;
+    const mark = Number(value);
+    return !isNaN(mark) && mark >= 0 && mark <= 100;
+  }, 'must be a number between 0 and 100'),
+};
+
+const AssessmentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().max(50),
+  weight: z
+    .string()
+    .refine((value) => value === '' || (Number(value) >= 0 && Number(value) <= 100), 'must be between 0 and 100'),
+  score: SubjectFieldSchemas.mark,
+});
+
+const SettingsSchema = z
+  .object({
+    totalCreditsRequired: z.number().int().positive().catch(DEFAULT_SETTINGS.totalCreditsRequired),
+    targetGraduationSemester: z.string().catch(DEFAULT_SETTINGS.targetGraduationSemester),
+    attemptPolicy: z.enum(['all', 'latest', 'best']).catch(DEFAULT_SETTINGS.attemptPolicy),
+    classification: ClassificationSchemeSchema.catch(DEFAULT_SETTINGS.classification),
+    levelMinimumCredits: z.record(z.number().min(0)).catch(DEFAULT_SETTINGS.levelMinimumCredits),
+    creditsPerSemester: z.number().int().positive().catch(DEFAULT_SETTINGS.creditsPerSemester),
+    degree: DegreeDefinitionSchema.nullable().catch(DEFAULT_SETTINGS.degree),
+  })
+  .catch(DEFAULT_SETTINGS);
+
+const EnvelopeSchema = z.object({
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+  gradingScheme: GradingSchemeSchema,
+  settings: SettingsSchema,
+  semesters: z.array(z.unknown()),
+});
+
+// Work out which shape a raw value is in
+// v0: bare Semester[] (original localStorage format and exports)
+// v1: { gradingScheme, semesters } exports
+// v2+: envelope with an explicit schemaVersion (see migrations for what each adds)
+export function detectSchemaVersion(raw: unknown): number {
+  if (Array.isArray(raw)) return 0;
+  if (raw && typeof raw === 'object') {
+    const version = (raw as { schemaVersion?: unknown }).schemaVersion;
+    if (typeof version === 'number') return version;
+    if (Array.isArray((raw as { semesters?: unknown }).semesters)) return 1;
+  }
+  throw new Error('Unrecognised data format. Please upload a valid WAM calculator data file.');
+}
+
+interface MigrationContext {
+  // Scheme to use for data saved before schemes were stored with it
+  fallbackScheme: GradingScheme;
+}
+
+type Migration = (data: unknown, context: MigrationContext) => unknown;
+
+// Just enough shape for a migration to read; everything else passes through
+const VersionedDataSchema = z
+  .object({
+    settings: z.record(z.unknown()).catch({}),
+    semesters: z.array(z.unknown()),
+  })
+  .passthrough();
+
+// Settings added in a version are filled in with their defaults. Values that
+// are already there are kept, since data saved between a field being added
+// and its version bump has them.
+function addSettings(version: number, added: Partial<AppSettings>): Migration {
+  return (data) => {
+    const envelope = VersionedDataSchema.parse(data);
+    return { ...envelope, schemaVersion: version, settings: { ...added, ...envelope.settings } };
+  };
+}
+
+// Versions that only allow new optional subject fields need no data changes.
+// The bump still matters: an older build refuses the file instead of quietly
+// dropping what it does not understand.
+function bumpVersion(version: number): Migration {
+  return (data) => ({ ...VersionedDataSchema.parse(data), schemaVersion: version });
+}
+
+const LegacyLevelMinimumRuleSchema = z.object({
+  type: z.literal('level-minimum'),
+  level: z.number().int(),
+  minCredits: z.number().positive(),
+});
+
+// Degree definitions used to carry their own level-minimum rules. Those now
+// live in levelMinimumCredits; a level the student already set keeps its value.
+const moveLevelMinimumRules: Migration = (data) => {
+  const envelope = VersionedDataSchema.parse(data);
+  const degree = z.object({ rules: z.array(z.unknown()) }).passthrough().safeParse(envelope.settings.degree);
+  if (!degree.success) return envelope;
+
+  const levelRules = degree.data.rules.flatMap((rule) => {
+    const result = LegacyLevelMinimumRuleSchema.safeParse(rule);
+    return result.success ? [result.data] : [];
+  });
+  // A level left at 0 has no minimum, so a rule can still fill it
+  const existing = Object.entries(z.record(z.number()).catch({}).parse(envelope.settings.levelMinimumCredits)).filter(
+    ([, minCredits]) => minCredits > 0,
+  );
+  return {
+    ...envelope,
+    settings: {
+      ...envelope.settings,
+      levelMinimumCredits: {
+        ...Object.fromEntries(levelRules.map((rule) => [rule.level, rule.minCredits])),
+        ...Object.fromEntries(existing),
+      },
+      degree: {
+        ...degree.data,
+        rules: degree.data.rules.filter((rule) => !LegacyLevelMinimumRuleSchema.safeParse(rule).success),
+      },
+    },
+  };
+};
+
+// migrations[n] upgrades version n data to version n + 1
+// v3: credit-only subjects (kind, creditSource)
+// v4: attemptPolicy setting
+// v5: classification setting
+// v6: levelMinimumCredits setting
+// v7: creditsPerSemester and degree settings
+// v8: assessment breakdowns on subjects
+const migrations: Record<number, Migration> = {
+  0: (data, context) => ({
+    gradingScheme: context.fallbackScheme,
+    semesters: z.array(z.unknown()).parse(data),
+  }),
+  1: (data, context) => {
+    const { gradingScheme, semesters } = z.object({ gradingScheme: z.unknown(), semesters: z.array(z.unknown()) }).parse(data);
+    return {
+      schemaVersion: 2,
+      gradingScheme: gradingScheme ?? context.fallbackScheme,
+      settings: {
+        totalCreditsRequired: DEFAULT_SETTINGS.totalCreditsRequired,
+        targetGraduationSemester: DEFAULT_SETTINGS.targetGraduationSemester,
+      },
+      semesters,
+    };
+  },
+  2: bumpVersion(3),
+  3: addSettings(4, { attemptPolicy: DEFAULT_SETTINGS.attemptPolicy }),
+  4: addSettings(5, { classification: DEFAULT_SETTINGS.classification }),
+  5: addSettings(6, { levelMinimumCredits: DEFAULT_SETTINGS.levelMinimumCredits }),
+  6: (data, context) =>
+    moveLevelMinimumRules(
+      addSettings(7, { creditsPerSemester: DEFAULT_SETTINGS.creditsPerSemester, degree: DEFAULT_SETTINGS.degree })(data, context),
+      context,
+    ),
+  7: bumpVersion(8),
+};
+
+export function migrateAppData(raw: unknown, context: MigrationContext): { data: unknown; migratedFrom: number } {
+  const migratedFrom = detectSchemaVersion(raw);
+  if (migratedFrom > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`This file was saved by a newer version of the calculator (schema ${migratedFrom}).`);
+  }
+
+  let data = raw;
+  for (let version = migratedFrom; version < CURRENT_SCHEMA_VERSION; version++) {
+    data = migrations[version](data, context);
+  }
+  return { data, migratedFrom };
+}
+
+// Validate one subject, blanking any invalid field instead of dropping the subject
+function sanitizeSubject(raw: unknown, path: string, issues: DataIssue[]): Subject | null {
+  if (!raw || typeof raw !== 'object') {
+    issues.push({ path, message: 'is not a subject and was skipped' });
+    return null;
+  }
+
+  const source = raw as Record<string, unknown>;
+  const subject: Subject = { id: '', code: '', creditPoints: '', mark: '' };
+
+  (Object.keys(SubjectFieldSchemas) as (keyof typeof SubjectFieldSchemas)[]).forEach((field) => {
+    const value = typeof source[field] === 'number' ? String(source[field]) : source[field];
+    if (value === undefined && field !== 'code') return;
+
+    const result = SubjectFieldSchemas[field].safeParse(value);
+    if (result.success) {
+      subject[field] = result.data;
+    } else if (field !== 'id') {
+      issues.push({ path: `${path}.${field}`, message: result.error.issues[0]?.message ?? 'is invalid' });
+    }
+  });
+
+  if (!subject.id) subject.id = generateUniqueId();
+  subject.code = subject.code.toUpperCase();
+
+  // Assessment breakdowns are optional; a bad row is dropped, not the subject
+  if (Array.isArray(source.assessments) && source.assessments.length > 0 && source.kind !== 'credit') {
+    subject.assessments = source.assessments.flatMap((assessment, index) => {
+      const result = AssessmentSchema.safeParse(assessment);
+      if (result.success) return [result.data];
+      issues.push({ path: `${path}.assessments[${index}]`, message: 'is invalid and was skipped' });
+      return [];
+    });
+  }
+
+  // Credit-only subjects carry a source note instead of a mark
+  if (source.kind === 'credit') {
+    subject.kind = 'credit';
+    subject.creditSource = typeof source.creditSource === 'string' ? source.creditSource.slice(0, 100) : '';
+    subject.mark = '';
+  }
+  return subject;
+}
+
+function sanitizeSemester(raw: unknown, index: number, issues: DataIssue[]): Semester | null {
+  const path = `semesters[${index}]`;
+  if (!raw || typeof raw !== 'object') {
+    issues.push({ path, message: 'is not a semester and was skipped' });
+    return null;
+  }
+
+  const source = raw as Record<string, unknown>;
+  const name = typeof source.name === 'string' && source.name.trim() ? source.name : `Semester ${index + 1}`;
+  const label = `${path} (${name})`;
+
+  if (name !== source.name) {
+    issues.push({ path: `${label}.name`, message: 'was missing and has been set to a default' });
+  }
+  if (!Array.isArray(source.subjects)) {
+    issues.push({ path: `${label}.subjects`, message: 'was missing; the semester was imported empty' });
+  }
+
+  const createdAt = new Date(
+    typeof source.createdAt === 'string' || typeof source.createdAt === 'number' ? source.createdAt : Date.now()
+  );
+  const subjects = (Array.isArray(source.subjects) ? source.subjects : [])
+    .map((subject, subjectIndex) => sanitizeSubject(subject, `${label}.subjects[${subjectIndex}]`, issues))
+    .filter((subject): subject is Subject => subject !== null);
+
+  return {
+    id: typeof source.id === 'string' && source.id ? source.id : generateUniqueId(),
+    name,
+    subjects,
+    createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
+    order: typeof source.order === 'number' ? source.order : index,
+    isEditingName: false,
+    ...(typeof source.year === 'string' && typeof source.session === 'string'
+      ? { year: source.year, session: source.session }
+      : {}),
+  };
+}
+
+// Validate a raw semester list with the same field rules as saved data
+export function parseSemesters(raw: unknown[], issues: DataIssue[] = []): Semester[] {
+  return raw
+    .map((semester, index) => sanitizeSemester(semester, index, issues))
+    .filter((semester): semester is Semester => semester !== null);
+}
+
+// Migrate and validate raw parsed JSON into the current data shape
+export function parseAppData(raw: unknown, fallbackScheme: GradingScheme = DEFAULT_GRADING_SCHEME): LoadResult {
+  const { data, migratedFrom } = migrateAppData(raw, { fallbackScheme });
+  const issues: DataIssue[] = [];
+
+  const envelope = EnvelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    // A broken scheme can be replaced; anything else means the file is unusable
+    const fatalIssues = envelope.error.issues.filter((issue) => issue.path[0] !== 'gradingScheme');
+    if (fatalIssues.length > 0) {
+      throw new Error('Invalid data file: ' + fatalIssues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join(', '));
+    }
+    issues.push({ path: 'gradingScheme', message: 'is invalid; the current grading scheme was kept' });
+  }
+
+  const source = data as { gradingScheme: unknown; settings: unknown; semesters: unknown[] };
+  const gradingScheme = envelope.success ? adoptScheme(envelope.data.gradingScheme) : fallbackScheme;
+  const settings = SettingsSchema.parse(source.settings);
+  const semesters = parseSemesters(source.semesters, issues);
+
+  return {
+    data: { schemaVersion: CURRENT_SCHEMA_VERSION, gradingScheme, settings, semesters },
+    issues,
+    migratedFrom,
+  };
+}
+
+// JSON for localStorage and exported files; UI-only fields are dropped
+export function serializeAppData(data: AppData): string {
+  return JSON.stringify(
+    {
+      ...data,
+      semesters: data.semesters.map(({ isEditingName, ...semester }) => semester),
+    },
+    null,
+    2,
+  );
+}
+
+export function formatDataIssue(issue: DataIssue): string {
+  return `${issue.path} ${issue.message}`;
+}
+
+export function createAppData(
+  semesters: Semester[],
+  gradingScheme: GradingScheme,
+  settings: AppSettings = DEFAULT_SETTINGS,
+): AppData {
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, gradingScheme, settings, semesters };
+}
+
+// Load saved data from localStorage. Blobs written before the envelope existed
+// take their grading scheme from the separate keys used at the time.
+export function loadStoredAppData(storage: Storage, key: string = STORAGE_KEY): LoadResult {
+  const fallbackScheme = restoreGradingScheme(
+    storage.getItem('wam-calculator-grading-scheme'),
+    storage.getItem('wam-calculator-grade-bands'),
+    storage.getItem('wam-calculator-grading-system'),
+  );
+  const savedData = storage.getItem(key);
+  if (!savedData) {
+    return { data: createAppData([], fallbackScheme), issues: [], migratedFrom: CURRENT_SCHEMA_VERSION };
+  }
+  return parseAppData(JSON.parse(savedData), fallbackScheme);
+}
+
+export function saveStoredAppData(storage: Storage, data: AppData, key: string = STORAGE_KEY): void {
+  storage.setItem(key, serializeAppData(data));
+}
@@ -0,0 +1,90 @@
+// Prerequisite checks
+// Walks the semesters in order and flags subjects whose prerequisites were not
+// passed (or at least enrolled in) in an earlier semester.
+
+import { isCreditOnlySubject, isPlannedSubject, toGradedSubject, type Semester } from './academic-engine';
+import type { GradeBand } from './grade-bands';
+import { SUBJECT_CATALOGUE } from './subject-catalogue';
+import { normalizeCode } from './subject-codes';
+
+// Subject code -> codes that must be passed first
+export type PrerequisiteMap = Record<string, string[]>;
+
+export const CATALOGUE_PREREQUISITES: PrerequisiteMap = Object.fromEntries(
+  SUBJECT_CATALOGUE.filter((entry) => entry.prerequisites.length > 0).map((entry) => [entry.code, entry.prerequisites])
+);
+
+// missing: never taken before; concurrent: only taken in the same or a later
+// semester; failed: every earlier attempt was failed
+export type PrerequisiteIssueKind = 'missing' | 'concurrent' | 'failed';
+
+export interface PrerequisiteIssue {
+  semesterId: string;
+  subjectId: string;
+  code: string;
+  prerequisite: string;
+  kind: PrerequisiteIssueKind;
+}
+
+type AttemptResult = 'passed' | 'failed' | 'planned';
+
+export function checkPrerequisites(
+  semesters: Semester[],
+  bands: GradeBand[],
+  prerequisites: PrerequisiteMap = CATALOGUE_PREREQUISITES,
+): PrerequisiteIssue[] {
+  const ordered = [...semesters].sort((a, b) => a.order - b.order);
+  const issues: PrerequisiteIssue[] = [];
+
+  // Results of every attempt at each code, tagged with the semester's position
+  const attempts = new Map<string, { position: number; result: AttemptResult }[]>();
+  ordered.forEach((semester, position) => {
+    semester.subjects.forEach((subject) => {
+      const code = normalizeCode(subject.code);
+      if (!code) return;
+      const graded = toGradedSubject(subject, bands);
+      const result: AttemptResult | null = isCreditOnlySubject(subject)
+        ? 'passed'
+        : graded
+          ? graded.isFail
+            ? 'failed'
+            : 'passed'
+          : isPlannedSubject(subject)
+            ? 'planned'
+            : null;
+      if (result) attempts.set(code, [...(attempts.get(code) ?? []), { position, result }]);
+    });
+  });
+
+  ordered.forEach((semester, position) => {
+    semester.subjects.forEach((subject) => {
+      // Advanced standing is granted, not enrolled in, so it has no prerequisites to meet
+      if (isCreditOnlySubject(subject)) return;
+      const code = normalizeCode(subject.code);
+
+      (prerequisites[code] ?? []).forEach((prerequisite) => {
+        const all = attempts.get(normalizeCode(prerequisite)) ?? [];
+        const earlier = all.filter((attempt) => attempt.position < position);
+        // An earlier enrolment that has no mark yet is assumed to be on track
+        if (earlier.some((attempt) => attempt.result !== 'failed')) return;
+
+        const kind: PrerequisiteIssueKind =
+          earlier.length > 0 ? 'failed' : all.some((attempt) => attempt.position >= position) ? 'concurrent' : 'missing';
+        issues.push({ semesterId: semester.id, subjectId: subject.id, code, prerequisite: normalizeCode(prerequisite), kind });
+      });
+    });
+  });
+
+  return issues;
+}
+
+export function describePrerequisiteIssue(issue: PrerequisiteIssue): string {
+  switch (issue.kind) {
+    case 'missing':
+      return `${issue.code} requires ${issue.prerequisite}, which has not been taken`;
+    case 'concurrent':
+      return `${issue.code} is taken before or alongside its prerequisite ${issue.prerequisite}`;
+    case 'failed':
+      return `${issue.code} follows a failed attempt at its prerequisite ${issue.prerequisite}`;
+  }
+}
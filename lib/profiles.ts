@@ -0,0 +1,118 @@
+// Student profiles
+// Each profile is a separate workspace (a student, or one degree of a double
+// degree) with its own semesters, grading scheme and graduation settings.
+// The profile list lives under one key; each profile's data under its own key.
+
+import { z } from 'zod';
+import { DEFAULT_GRADING_SCHEME } from './grading-schemes';
+import { STORAGE_KEY, createAppData, saveStoredAppData } from './persistence';
+import { getScenarioStorageKey } from './scenarios';
+import { generateUniqueId } from './utils';
+
+export const PROFILES_KEY = 'wam-calculator-profiles';
+
+// The first profile keeps the original storage key so existing data needs no move
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface ProfileIndex {
+  activeProfileId: string;
+  profiles: Profile[];
+}
+
+const ProfileIndexSchema = z.object({
+  activeProfileId: z.string(),
+  profiles: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string(),
+        createdAt: z.string(),
+      })
+    )
+    .nonempty(),
+});
+
+export function getProfileStorageKey(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? STORAGE_KEY : `${STORAGE_KEY}-${profileId}`;
+}
+
+function createDefaultIndex(): ProfileIndex {
+  return {
+    activeProfileId: DEFAULT_PROFILE_ID,
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: 'My Record', createdAt: new Date().toISOString() }],
+  };
+}
+
+export function loadProfileIndex(storage: Storage): ProfileIndex {
+  const saved = storage.getItem(PROFILES_KEY);
+  if (!saved) return createDefaultIndex();
+
+  try {
+    const result = ProfileIndexSchema.safeParse(JSON.parse(saved));
+    if (!result.success) return createDefaultIndex();
+    const index = result.data;
+    const hasActive = index.profiles.some((profile) => profile.id === index.activeProfileId);
+    return hasActive ? index : { ...index, activeProfileId: index.profiles[0].id };
+  } catch (e) {
+    console.error('Failed to load saved profiles:', e);
+    return createDefaultIndex();
+  }
+}
+
+export function saveProfileIndex(storage: Storage, index: ProfileIndex): void {
+  storage.setItem(PROFILES_KEY, JSON.stringify(index));
+}
+
+export function getActiveProfile(index: ProfileIndex): Profile {
+  return index.profiles.find((profile) => profile.id === index.activeProfileId) ?? index.profiles[0];
+}
+
+// Create an empty profile with default settings and make it active
+export function createProfile(storage: Storage, index: ProfileIndex, name: string): ProfileIndex {
+  const profile: Profile = { id: generateUniqueId(), name: name.trim() || 'New Profile', createdAt: new Date().toISOString() };
+  saveStoredAppData(storage, createAppData([], DEFAULT_GRADING_SCHEME), getProfileStorageKey(profile.id));
+  return { activeProfileId: profile.id, profiles: [...index.profiles, profile] };
+}
+
+export function renameProfile(index: ProfileIndex, profileId: string, name: string): ProfileIndex {
+  if (!name.trim()) return index;
+  return {
+    ...index,
+    profiles: index.profiles.map((profile) => (profile.id === profileId ? { ...profile, name: name.trim() } : profile)),
+  };
+}
+
+// Copy a profile's saved data into a new profile and make the copy active
+export function duplicateProfile(storage: Storage, index: ProfileIndex, profileId: string): ProfileIndex {
+  const source = index.profiles.find((profile) => profile.id === profileId);
+  if (!source) return index;
+
+  const copy: Profile = { id: generateUniqueId(), name: `${source.name} (copy)`, createdAt: new Date().toISOString() };
+  const savedData = storage.getItem(getProfileStorageKey(source.id));
+  if (savedData) storage.setItem(getProfileStorageKey(copy.id), savedData);
+  const savedScenarios = storage.getItem(getScenarioStorageKey(getProfileStorageKey(source.id)));
+  if (savedScenarios) storage.setItem(getScenarioStorageKey(getProfileStorageKey(copy.id)), savedScenarios);
+  return { activeProfileId: copy.id, profiles: [...index.profiles, copy] };
+}
+
+// Delete a profile and its data; the last remaining profile cannot be deleted
+export function deleteProfile(storage: Storage, index: ProfileIndex, profileId: string): ProfileIndex {
+  if (index.profiles.length <= 1) return index;
+
+  storage.removeItem(getProfileStorageKey(profileId));
+  storage.removeItem(getScenarioStorageKey(getProfileStorageKey(profileId)));
+  const profiles = index.profiles.filter((profile) => profile.id !== profileId);
+  const activeProfileId = index.activeProfileId === profileId ? profiles[0].id : index.activeProfileId;
+  return { activeProfileId, profiles };
+}
+
+export function switchProfile(index: ProfileIndex, profileId: string): ProfileIndex {
+  if (!index.profiles.some((profile) => profile.id === profileId)) return index;
+  return { ...index, activeProfileId: profileId };
+}
@@ -0,0 +1,76 @@
+// Semester-by-semester progress
+// One point per semester with its own WAM/GPA, the cumulative WAM/GPA as it
+// stood at the end of that semester and how far it moved, grade counts and
+// credit load. Cumulative figures apply the repeat-attempt policy to the
+// semesters up to that point, so they match what the calculator showed then.
+
+import {
+  calculateGPA,
+  calculateWAM,
+  countGradedSubjects,
+  getGradeDistribution,
+  getGradedSubjects,
+  isCreditOnlySubject,
+  isPlannedSubject,
+  parseCreditPoints,
+  type Semester,
+} from './academic-engine';
+import { getCountedSubjects, type AttemptPolicy } from './attempt-policy';
+import type { GradeBand } from './grade-bands';
+
+export interface SemesterProgressPoint {
+  semesterId: string;
+  name: string;
+  // Null when the semester has no marked subjects yet
+  wam: number | null;
+  gpa: number | null;
+  cumulativeWAM: number | null;
+  cumulativeGPA: number | null;
+  // Movement in the cumulative figures since the previous semester
+  cumulativeWAMChange: number | null;
+  cumulativeGPAChange: number | null;
+  grades: Record<string, number>;
+  passedCredits: number;
+  failedCredits: number;
+  plannedCredits: number;
+  advancedStandingCredits: number;
+}
+
+const getChange = (current: number | null, previous: number | null | undefined) =>
+  current !== null && previous != null ? current - previous : null;
+
+export function getProgressSeries(semesters: Semester[], bands: GradeBand[], policy: AttemptPolicy): SemesterProgressPoint[] {
+  const ordered = [...semesters].sort((a, b) => a.order - b.order);
+
+  const points = ordered.map((semester, index) => {
+    const hasMarks = countGradedSubjects(semester.subjects) > 0;
+    const counted = getCountedSubjects(ordered.slice(0, index + 1), policy);
+    const hasCumulativeMarks = countGradedSubjects(counted) > 0;
+    const graded = getGradedSubjects(semester.subjects, bands);
+    const sumCredits = (creditPoints: number[]) => creditPoints.reduce((sum, credits) => sum + credits, 0);
+
+    return {
+      semesterId: semester.id,
+      name: semester.name,
+      wam: hasMarks ? calculateWAM(semester.subjects) : null,
+      gpa: hasMarks ? calculateGPA(semester.subjects, bands) : null,
+      cumulativeWAM: hasCumulativeMarks ? calculateWAM(counted) : null,
+      cumulativeGPA: hasCumulativeMarks ? calculateGPA(counted, bands) : null,
+      grades: getGradeDistribution(semester.subjects, bands).distribution,
+      passedCredits: sumCredits(graded.filter((subject) => !subject.isFail).map((subject) => subject.creditPoints)),
+      failedCredits: sumCredits(graded.filter((subject) => subject.isFail).map((subject) => subject.creditPoints)),
+      plannedCredits: sumCredits(
+        semester.subjects.filter(isPlannedSubject).map((subject) => parseCreditPoints(subject.creditPoints) ?? 0)
+      ),
+      advancedStandingCredits: sumCredits(
+        semester.subjects.filter(isCreditOnlySubject).map((subject) => parseCreditPoints(subject.creditPoints) ?? 0)
+      ),
+    };
+  });
+
+  return points.map((point, index) => ({
+    ...point,
+    cumulativeWAMChange: getChange(point.cumulativeWAM, points[index - 1]?.cumulativeWAM),
+    cumulativeGPAChange: getChange(point.cumulativeGPA, points[index - 1]?.cumulativeGPA),
+  }));
+}
@@ -0,0 +1,95 @@
+// What-if scenarios
+// A scenario is a named copy of the student's semesters with hypothetical
+// marks and subjects. Scenarios are stored under their own key next to the
+// profile's data, so experimenting never touches the real record.
+
+import { z } from 'zod';
+import { calculateCreditsCompleted, calculateGPA, calculateWAM, type Semester } from './academic-engine';
+import { getCountedSubjects } from './attempt-policy';
+import { calculateClassification, type ClassificationResult } from './classification';
+import type { GradeBand } from './grade-bands';
+import { parseSemesters, type AppSettings } from './persistence';
+import { generateUniqueId } from './utils';
+
+export interface Scenario {
+  id: string;
+  name: string;
+  createdAt: string;
+  semesters: Semester[];
+}
+
+// The figures compared across scenarios
+export interface ScenarioSummary {
+  wam: number;
+  gpa: number;
+  credits: number;
+  progress: number;
+  classification: ClassificationResult;
+}
+
+const ScenarioListSchema = z.array(
+  z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    createdAt: z.string(),
+    semesters: z.array(z.unknown()),
+  })
+);
+
+// Scenarios for the profile whose data lives under dataKey
+export function getScenarioStorageKey(dataKey: string): string {
+  return `${dataKey}-scenarios`;
+}
+
+// Fork the given semesters into a new scenario
+export function createScenario(name: string, semesters: Semester[]): Scenario {
+  return {
+    id: generateUniqueId(),
+    name: name.trim() || 'Untitled scenario',
+    createdAt: new Date().toISOString(),
+    semesters: semesters.map((semester) => ({
+      ...semester,
+      isEditingName: false,
+      subjects: semester.subjects.map((subject) => ({ ...subject })),
+    })),
+  };
+}
+
+export function loadScenarios(storage: Storage, key: string): Scenario[] {
+  const saved = storage.getItem(key);
+  if (!saved) return [];
+
+  try {
+    const result = ScenarioListSchema.safeParse(JSON.parse(saved));
+    if (!result.success) return [];
+    return result.data.map((scenario) => ({ ...scenario, semesters: parseSemesters(scenario.semesters) }));
+  } catch (e) {
+    console.error('Failed to load saved scenarios:', e);
+    return [];
+  }
+}
+
+export function saveScenarios(storage: Storage, key: string, scenarios: Scenario[]): void {
+  storage.setItem(
+    key,
+    JSON.stringify(
+      scenarios.map((scenario) => ({
+        ...scenario,
+        semesters: scenario.semesters.map(({ isEditingName, ...semester }) => semester),
+      }))
+    )
+  );
+}
+
+// Cumulative figures for a set of semesters under the student's settings
+export function summarizeSemesters(semesters: Semester[], bands: GradeBand[], settings: AppSettings): ScenarioSummary {
+  const counted = getCountedSubjects(semesters, settings.attemptPolicy);
+  const credits = calculateCreditsCompleted(counted, bands);
+  return {
+    wam: calculateWAM(counted),
+    gpa: calculateGPA(counted, bands),
+    credits,
+    progress: settings.totalCreditsRequired > 0 ? (credits / settings.totalCreditsRequired) * 100 : 0,
+    classification: calculateClassification(counted, settings.classification),
+  };
+}
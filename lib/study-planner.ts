@@ -0,0 +1,219 @@
+// Study planner
+// Drafts the semesters between now and graduation: outstanding core subjects
+// and major electives from the degree definition are placed session by session,
+// no earlier than their prerequisites, only in sessions they are offered in and
+// within the per-semester credit load. Remaining credits become open elective
+// slots for the student to fill in.
+
+import {
+  getAllSubjects,
+  getGradedSubjects,
+  isCreditOnlySubject,
+  isPlannedSubject,
+  parseCreditPoints,
+  type Semester,
+} from './academic-engine';
+import { matchesPool, type DegreeDefinition, type ElectivePool } from './degree-requirements';
+import { compareYearSession, getSessionPriority } from './enrollment-parser';
+import type { GradeBand } from './grade-bands';
+import { findCatalogueEntry, SUBJECT_CATALOGUE, type CatalogueEntry } from './subject-catalogue';
+import { normalizeCode } from './subject-codes';
+import { generateUniqueId } from './utils';
+
+export interface PlannedSubject {
+  // Empty for an open elective slot
+  code: string;
+  title: string;
+  creditPoints: number;
+}
+
+export interface PlannedSemester {
+  year: string;
+  session: string;
+  subjects: PlannedSubject[];
+}
+
+export interface UnscheduledSubject {
+  code: string;
+  reason: string;
+}
+
+export interface StudyPlan {
+  semesters: PlannedSemester[];
+  unscheduled: UnscheduledSubject[];
+  // Credits after every planned semester is passed
+  projectedCredits: number;
+}
+
+export interface StudyPlanOptions {
+  totalCreditsRequired: number;
+  creditsPerSemester: number;
+  // Sessions the student will study in, e.g. ['Autumn', 'Spring']
+  sessions: string[];
+  degree: DegreeDefinition | null;
+  maxSemesters?: number;
+}
+
+const ELECTIVE_CREDIT_POINTS = 6;
+const DEFAULT_MAX_SEMESTERS = 16;
+
+// The session after year/session among the sessions the student studies in
+export function getNextSession(year: string, session: string, sessions: string[]): { year: string; session: string } {
+  const ordered = [...sessions].sort((a, b) => getSessionPriority(a) - getSessionPriority(b));
+  const next = ordered.find((candidate) => getSessionPriority(candidate) > getSessionPriority(session));
+  return next ? { year, session: next } : { year: String(Number(year) + 1), session: ordered[0] };
+}
+
+// The first session to plan: the one after the latest dated semester, or the
+// next session of the current year when no semester has a year and session
+export function getPlanStart(semesters: Semester[], sessions: string[], today = new Date()): { year: string; session: string } {
+  const dated = semesters
+    .filter((semester) => semester.year !== undefined && semester.session !== undefined)
+    .sort((a, b) => compareYearSession(a.year!, a.session!, b.year!, b.session!));
+  const latest = dated[dated.length - 1];
+  if (latest) return getNextSession(latest.year!, latest.session!, sessions);
+
+  const year = String(today.getFullYear());
+  return today.getMonth() < 6 ? getNextSession(year, 'Autumn', sessions) : getNextSession(year, 'Spring', sessions);
+}
+
+// Subjects a pool still needs, cheapest levels first, until its credits are covered
+function pickPoolSubjects(pool: ElectivePool, credits: number, exclude: Set<string>, done: Map<string, number>) {
+  let remaining =
+    credits -
+    Array.from(done)
+      .filter(([code]) => !exclude.has(code) && matchesPool(code, pool))
+      .reduce((sum, [, creditPoints]) => sum + creditPoints, 0);
+
+  const picked: CatalogueEntry[] = [];
+  SUBJECT_CATALOGUE.filter((entry) => !exclude.has(entry.code) && !done.has(entry.code) && matchesPool(entry.code, pool))
+    .sort((a, b) => (a.level ?? 0) - (b.level ?? 0))
+    .forEach((entry) => {
+      if (remaining <= 0) return;
+      picked.push(entry);
+      remaining -= entry.creditPoints;
+    });
+  return picked;
+}
+
+export function buildStudyPlan(semesters: Semester[], bands: GradeBand[], options: StudyPlanOptions): StudyPlan {
+  const subjects = getAllSubjects(semesters);
+  const maxSemesters = options.maxSemesters ?? DEFAULT_MAX_SEMESTERS;
+
+  // Passed, credited and currently enrolled subjects all count as done for planning
+  const done = new Map<string, number>();
+  getGradedSubjects(subjects, bands)
+    .filter((subject) => !subject.isFail)
+    .forEach((subject) => done.set(normalizeCode(subject.code), subject.creditPoints));
+  subjects
+    .filter((subject) => isCreditOnlySubject(subject) || isPlannedSubject(subject))
+    .forEach((subject) => {
+      const creditPoints = parseCreditPoints(subject.creditPoints);
+      if (subject.code.trim() && creditPoints !== null) done.set(normalizeCode(subject.code), creditPoints);
+    });
+
+  // Outstanding core subjects, then the electives each named pool still needs
+  const rules = options.degree?.rules ?? [];
+  const coreCodes = new Set(
+    rules.flatMap((rule) => (rule.type === 'core' ? rule.subjects : rule.type === 'major' ? rule.core : [])).map(normalizeCode)
+  );
+  const queue: PlannedSubject[] = [];
+  const queued = new Set<string>();
+  const enqueue = (code: string) => {
+    if (done.has(code) || queued.has(code)) return;
+    const entry = findCatalogueEntry(code);
+    // Prerequisites that are not done yet have to be planned first
+    entry?.prerequisites.map(normalizeCode).forEach(enqueue);
+    queued.add(code);
+    queue.push({ code, title: entry?.title ?? '', creditPoints: entry?.creditPoints ?? ELECTIVE_CREDIT_POINTS });
+  };
+  Array.from(coreCodes).forEach(enqueue);
+  rules.forEach((rule) => {
+    const pool = rule.type === 'major' ? rule.electives : rule.type === 'elective-pool' ? rule.pool : null;
+    const credits = rule.type === 'major' ? rule.electiveCredits : rule.type === 'elective-pool' ? rule.minCredits : 0;
+    // General electives without subjects or disciplines are left as open slots
+    if (!pool || (!pool.subjects && !pool.disciplines)) return;
+    pickPoolSubjects(pool, credits, new Set([...coreCodes, ...queued]), done).forEach((entry) => enqueue(entry.code));
+  });
+
+  const taken = new Set(done.keys());
+  let credits = Array.from(done.values()).reduce((sum, creditPoints) => sum + creditPoints, 0);
+  const plan: PlannedSemester[] = [];
+  let { year, session } = getPlanStart(semesters, options.sessions);
+  let idleSessions = 0;
+
+  for (let i = 0; i < maxSemesters && (queue.length > 0 || credits < options.totalCreditsRequired); i++) {
+    const picked: PlannedSubject[] = [];
+    let load = 0;
+
+    queue.forEach((candidate) => {
+      const entry = findCatalogueEntry(candidate.code);
+      const isOffered = !entry || entry.sessions.some((offered) => session.includes(offered));
+      const hasPrerequisites = !entry || entry.prerequisites.every((code) => taken.has(normalizeCode(code)));
+      if (isOffered && hasPrerequisites && load + candidate.creditPoints <= options.creditsPerSemester) {
+        picked.push(candidate);
+        load += candidate.creditPoints;
+      }
+    });
+    picked.forEach((subject) => queue.splice(queue.indexOf(subject), 1));
+
+    // Open elective slots for whatever the queued subjects will not cover
+    const reserved = queue.reduce((sum, subject) => sum + subject.creditPoints, 0);
+    while (load < options.creditsPerSemester && credits + load + reserved < options.totalCreditsRequired) {
+      const creditPoints = Math.min(
+        ELECTIVE_CREDIT_POINTS,
+        options.creditsPerSemester - load,
+        options.totalCreditsRequired - credits - load - reserved
+      );
+      picked.push({ code: '', title: 'Elective', creditPoints });
+      load += creditPoints;
+    }
+
+    if (picked.length > 0) {
+      plan.push({ year, session, subjects: picked });
+      picked.forEach((subject) => subject.code && taken.add(subject.code));
+      credits += load;
+      idleSessions = 0;
+    } else if (++idleSessions >= options.sessions.length) {
+      // A full year without progress: the rest cannot be scheduled
+      break;
+    }
+    ({ year, session } = getNextSession(year, session, options.sessions));
+  }
+
+  const unscheduled = queue.map((subject): UnscheduledSubject => {
+    const entry = findCatalogueEntry(subject.code);
+    const missing = entry?.prerequisites.filter((code) => !taken.has(normalizeCode(code))) ?? [];
+    const reason =
+      subject.creditPoints > options.creditsPerSemester
+        ? `Needs ${subject.creditPoints} credits in one semester`
+        : entry && !entry.sessions.some((offered) => options.sessions.some((s) => s.includes(offered)))
+          ? `Only offered in ${entry.sessions.join(', ')}`
+          : missing.length > 0
+            ? `Waiting on ${missing.join(', ')}`
+            : `Does not fit within ${maxSemesters} semesters`;
+    return { code: subject.code, reason };
+  });
+
+  return { semesters: plan, unscheduled, projectedCredits: credits };
+}
+
+// Draft calculator semesters for a plan, numbered on from firstOrder (one past
+// the highest existing order, since orders have gaps once a semester is deleted)
+export function toDraftSemesters(plan: StudyPlan, firstOrder: number): Semester[] {
+  return plan.semesters.map((semester, index) => ({
+    id: generateUniqueId(),
+    name: `${semester.year} ${semester.session}`,
+    subjects: semester.subjects.map((subject) => ({
+      id: generateUniqueId(),
+      code: subject.code,
+      creditPoints: subject.creditPoints.toString(),
+      mark: '',
+    })),
+    createdAt: new Date(),
+    order: firstOrder + index,
+    isEditingName: false,
+    year: semester.year,
+    session: semester.session,
+  }));
+}
@@ -0,0 +1,127 @@
+// Subject catalogue
+// A bundled, offline list of UOWD subjects with their titles, default credit
+// points, prerequisites and the sessions they are usually offered in. It is
+// used to autocomplete subject codes, fill in credit points and draft study
+// plans; codes that are not listed can still be entered by hand.
+
+import { getSubjectLevel } from './subject-codes';
+
+export interface CatalogueEntry {
+  code: string;
+  title: string;
+  creditPoints: number;
+  level: number | null;
+  // Codes that must be passed before enrolling
+  prerequisites: string[];
+  // Sessions the subject is usually offered in, e.g. ['Autumn', 'Spring']
+  sessions: string[];
+}
+
+const MAIN_SESSIONS = ['Autumn', 'Spring'];
+
+const entry = (
+  code: string,
+  title: string,
+  prerequisites: string[] = [],
+  creditPoints = 6,
+  sessions = MAIN_SESSIONS,
+): CatalogueEntry => ({
+  code,
+  title,
+  creditPoints,
+  level: getSubjectLevel(code),
+  prerequisites,
+  sessions,
+});
+
+export const SUBJECT_CATALOGUE: CatalogueEntry[] = [
+  // Computer science and information technology
+  entry('CSIT110', 'Fundamental Programming with Python'),
+  entry('CSIT111', 'Programming Fundamentals'),
+  entry('CSIT113', 'Problem Solving'),
+  entry('CSIT114', 'System Analysis'),
+  entry('CSIT115', 'Data Management and Security'),
+  entry('CSIT121', 'Object Oriented Design and Programming', ['CSIT111']),
+  entry('CSIT127', 'Networks and Communications'),
+  entry('CSIT128', 'Introduction to Web Technology'),
+  entry('CSCI203', 'Algorithms and Data Structures', ['CSIT121'], 6, ['Spring']),
+  entry('CSCI235', 'Database Systems', ['CSIT115'], 6, ['Autumn']),
+  entry('CSCI251', 'Advanced Programming', ['CSIT121']),
+  entry('CSCI262', 'System Security', ['CSIT127']),
+  entry('CSIT214', 'IT Project Management', ['CSIT114']),
+  entry('CSIT226', 'Human Computer Interaction', ['CSIT114']),
+  entry('CSCI301', 'Contemporary Topics in Security', ['CSCI262'], 6, ['Spring']),
+  entry('CSIT314', 'Software Development Methodologies', ['CSIT214', 'CSCI251'], 6, ['Autumn']),
+  entry('CSCI315', 'Database Design and Implementation', ['CSCI235']),
+  entry('CSCI316', 'Big Data Mining Techniques and Implementation', ['CSCI203', 'CSCI235']),
+  entry('CSCI318', 'Software Engineering Practices and Principles', ['CSCI251']),
+  entry('CSCI321', 'Project', ['CSIT214', 'CSCI251'], 12),
+  entry('CSCI334', 'Software Design', ['CSCI251']),
+  entry('CSCI361', 'Cryptography and Secure Applications', ['CSCI262']),
+  entry('CSCI376', 'Multicore and GPU Programming', ['CSCI251']),
+  entry('ISIT307', 'Web Server Programming', ['CSIT128']),
+  entry('ISIT312', 'Big Data Management', ['CSCI235']),
+
+  // Mathematics and statistics
+  entry('MATH111', 'Applied Mathematical Modelling I'),
+  entry('MATH221', 'Mathematics for Computer Science'),
+  entry('STAT131', 'Understanding Variation and Uncertainty'),
+
+  // Business
+  entry('ACCY111', 'Accounting for Decision Making'),
+  entry('ACCY121', 'Accounting Principles and Practice'),
+  entry('ACCY201', 'Accounting Information Systems', ['ACCY121']),
+  entry('ACCY211', 'Financial Accounting Applications', ['ACCY121']),
+  entry('ACCY231', 'Management Accounting I', ['ACCY111']),
+  entry('ACCY305', 'Auditing and Assurance', ['ACCY211'], 6, ['Spring']),
+  entry('ACCY312', 'Advanced Financial Accounting', ['ACCY211']),
+  entry('ECON100', 'Economic Essentials for Business'),
+  entry('ECON101', 'Macroeconomic Essentials for Business'),
+  entry('ECON215', 'Managerial Economics', ['ECON100']),
+  entry('FIN111', 'Introduction to Finance'),
+  entry('FIN222', 'Corporate Finance', ['FIN111']),
+  entry('FIN223', 'Investment Analysis', ['FIN111']),
+  entry('FIN324', 'International Financial Management', ['FIN222']),
+  entry('MARK101', 'Marketing Principles'),
+  entry('MARK201', 'Consumer Behaviour', ['MARK101']),
+  entry('MARK205', 'Marketing Research', ['MARK101']),
+  entry('MARK343', 'Strategic Marketing', ['MARK201']),
+  entry('MGMT110', 'Introduction to Management'),
+  entry('MGMT201', 'Organisational Behaviour', ['MGMT110']),
+  entry('MGMT301', 'Strategic Management', ['MGMT201'], 6, ['Autumn']),
+  entry('MGMT311', 'Business Ethics and Sustainability', ['MGMT110']),
+  entry('BUS101', 'Business Communication', [], 6, ['Summer', 'Autumn', 'Winter', 'Spring']),
+  entry('BUS310', 'Business Capstone', ['MGMT201']),
+
+  // Engineering
+  entry('ENGG100', 'Engineering Design and Innovation'),
+  entry('ENGG102', 'Fundamentals of Engineering Mechanics'),
+  entry('ECTE170', 'Introduction to Circuits and Devices'),
+  entry('ECTE250', 'Engineering Design and Management II', ['ENGG100']),
+  entry('ECTE301', 'Digital Signal Processing', ['ECTE170']),
+];
+
+const CATALOGUE_BY_CODE = new Map(SUBJECT_CATALOGUE.map((subject) => [subject.code, subject]));
+
+export function findCatalogueEntry(code: string): CatalogueEntry | undefined {
+  return CATALOGUE_BY_CODE.get(code.trim().toUpperCase());
+}
+
+export function isKnownSubjectCode(code: string): boolean {
+  return findCatalogueEntry(code) !== undefined;
+}
+
+// Entries whose code starts with the query rank before entries that only match
+// elsewhere in the code or title
+export function searchCatalogue(query: string, limit = 8): CatalogueEntry[] {
+  const normalized = query.trim().toUpperCase();
+  if (!normalized) return SUBJECT_CATALOGUE.slice(0, limit);
+
+  const prefixMatches = SUBJECT_CATALOGUE.filter((subject) => subject.code.startsWith(normalized));
+  const otherMatches = SUBJECT_CATALOGUE.filter(
+    (subject) =>
+      !subject.code.startsWith(normalized) &&
+      (subject.code.includes(normalized) || subject.title.toUpperCase().includes(normalized))
+  );
+  return [...prefixMatches, ...otherMatches].slice(0, limit);
+}
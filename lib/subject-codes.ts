@@ -0,0 +1,36 @@
+// Subject codes
+// UOW codes are a discipline prefix followed by three digits, the first of
+// which is the level: CSCI203 is a 200-level Computer Science subject.
+
+const SUBJECT_CODE_PATTERN = /^([A-Z]+)(\d)(\d{2})([A-Z]?)$/;
+
+export interface SubjectCodeParts {
+  // Discipline prefix, e.g. CSIT, ACCY, MGMT
+  discipline: string;
+  level: number;
+  number: string;
+}
+
+// Codes are compared trimmed and upper-cased, so "csci203 " matches CSCI203
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function parseSubjectCode(code: string): SubjectCodeParts | null {
+  const match = normalizeCode(code).match(SUBJECT_CODE_PATTERN);
+  if (!match) return null;
+  return { discipline: match[1], level: Number(match[2]), number: `${match[2]}${match[3]}${match[4]}` };
+}
+
+// The level digit of a subject code (1 for 100-level), or null when the code has none
+export function getSubjectLevel(code: string): number | null {
+  return parseSubjectCode(code)?.level ?? null;
+}
+
+export function getSubjectDiscipline(code: string): string | null {
+  return parseSubjectCode(code)?.discipline ?? null;
+}
+
+export function formatLevel(level: number | null): string {
+  return level === null ? 'Other' : `${level}00-level`;
+}
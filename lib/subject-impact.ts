@@ -0,0 +1,73 @@
+// Subject impact analysis
+// Shows how much each marked subject pulls the overall WAM up or down, what
+// the WAM would be without it, and what lifting it to the next grade band
+// (e.g. through a re-take) would be worth. Works on the same counted subjects
+// as the overall WAM, so the figures add up to what the calculator shows.
+
+import { getWAMTotals, toGradedSubject, type Subject } from './academic-engine';
+import { sortGradeBands, type GradeBand } from './grade-bands';
+
+export interface SubjectImpact {
+  id: string;
+  code: string;
+  creditPoints: number;
+  mark: number;
+  grade: string;
+  // Share of the WAM above or below the mean: credit weight × (mark − WAM).
+  // Contributions across all subjects sum to zero.
+  contribution: number;
+  // null when this is the only marked subject
+  wamWithout: number | null;
+  // The next passing band up, or null when already in the top band
+  nextBand: { grade: string; minMark: number } | null;
+  wamIfImproved: number | null;
+  improvementGain: number | null;
+}
+
+export interface SubjectImpactAnalysis {
+  wam: number;
+  impacts: SubjectImpact[];
+}
+
+export function analyzeSubjectImpact(subjects: Subject[], bands: GradeBand[]): SubjectImpactAnalysis {
+  const { credits, weightedMarks } = getWAMTotals(subjects);
+  const wam = credits > 0 ? weightedMarks / credits : 0;
+  // Lowest cutoff first, so the first band above a mark is the next one up.
+  // Fail bands are skipped: lifting a fail only to a technical fail gains little.
+  const ascendingBands = sortGradeBands(bands).reverse();
+
+  const impacts = subjects.flatMap((subject) => {
+    const graded = toGradedSubject(subject, bands);
+    if (!graded) return [];
+
+    const { creditPoints, mark } = graded;
+    const otherCredits = credits - creditPoints;
+    const next = ascendingBands.find((band) => band.minMark > mark && !band.isFail);
+    const wamIfImproved = next ? (weightedMarks + creditPoints * (next.minMark - mark)) / credits : null;
+
+    return [
+      {
+        id: subject.id,
+        code: graded.code,
+        creditPoints,
+        mark,
+        grade: graded.grade,
+        contribution: (creditPoints / credits) * (mark - wam),
+        wamWithout: otherCredits > 0 ? (weightedMarks - creditPoints * mark) / otherCredits : null,
+        nextBand: next ? { grade: next.grade, minMark: next.minMark } : null,
+        wamIfImproved,
+        improvementGain: wamIfImproved !== null ? wamIfImproved - wam : null,
+      },
+    ];
+  });
+
+  return { wam, impacts };
+}
+
+// The subjects whose improvement to the next band would lift the WAM most
+export function getTopImprovements(impacts: SubjectImpact[], limit = 3): SubjectImpact[] {
+  return impacts
+    .filter((impact) => (impact.improvementGain ?? 0) > 0)
+    .sort((a, b) => (b.improvementGain ?? 0) - (a.improvementGain ?? 0))
+    .slice(0, limit);
+}
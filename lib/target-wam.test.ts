@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { Subject } from './academic-engine';
+import { solveTargetWAM, type SolverSubject } from './target-wam';
+
+const completed = (id: string, mark: string, creditPoints = '6'): Subject => ({ id, code: id, creditPoints, mark });
+
+const upcoming = (id: string, overrides: Partial<SolverSubject> = {}): SolverSubject => ({
+  id,
+  creditPoints: 6,
+  fixedMark: null,
+  maxMark: 100,
+  ...overrides,
+});
+
+describe('solveTargetWAM', () => {
+  it('solves only for subjects without a fixed mark', () => {
+    const solution = solveTargetWAM(
+      [completed('CSIT111', '70')],
+      [upcoming('CSIT113', { fixedMark: 80 }), upcoming('CSIT114', { creditPoints: 12 })],
+      75,
+    );
+
+    expect(solution.status).toBe('feasible');
+    expect(solution.requiredMarks).toEqual({ CSIT114: 75 });
+    expect(solution.maxAchievableWAM).toBeCloseTo((420 + 480 + 1200) / 24);
+  });
+
+  it('asks more of the other subjects when one is held at its cap', () => {
+    const solution = solveTargetWAM([], [upcoming('CSIT113'), upcoming('CSIT114', { maxMark: 70 })], 82.5);
+
+    expect(solution.status).toBe('feasible');
+    expect(solution.requiredMarks).toEqual({ CSIT113: 95, CSIT114: 70 });
+    expect(solution.explanation).toContain('1 subject is held at its cap, so the others need 95');
+  });
+
+  it('rounds required marks up so meeting them reaches the target', () => {
+    const solution = solveTargetWAM([completed('CSIT111', '70')], [upcoming('CSIT113', { creditPoints: 18 })], 75.01);
+    expect(solution.requiredMarks.CSIT113).toBe(76.68);
+  });
+
+  it('reports a target that completed subjects already reach', () => {
+    const solution = solveTargetWAM([completed('CSIT111', '90')], [upcoming('CSIT113')], 40);
+
+    expect(solution.status).toBe('already-met');
+    expect(solution.requiredMarks).toEqual({ CSIT113: 0 });
+    expect(solution.explanation).toBe('Your completed subjects already reach a WAM of 40, whatever you score in the rest.');
+  });
+
+  it('explains how many more credits an unreachable target would need', () => {
+    const solution = solveTargetWAM([completed('CSIT111', '50')], [upcoming('CSIT113')], 90);
+
+    expect(solution.status).toBe('infeasible');
+    expect(solution.requiredMarks).toEqual({});
+    expect(solution.maxAchievableWAM).toBeCloseTo(75);
+    expect(solution.explanation).toBe(
+      'Even at 100 in every open subject, the highest WAM you can reach is 75.00, so 90 is out of reach without about 18 more credits at full marks.',
+    );
+  });
+
+  it('mentions caps when they make a target unreachable', () => {
+    const solution = solveTargetWAM([], [upcoming('CSIT113', { maxMark: 80 })], 85);
+
+    expect(solution.status).toBe('infeasible');
+    expect(solution.explanation).toContain('Even at their caps in every open subject');
+  });
+
+  it('counts completed failed subjects in the denominator', () => {
+    const solution = solveTargetWAM([completed('CSIT111', '30'), completed('CSIT113', '90')], [upcoming('CSIT114')], 70);
+
+    // (30 + 90 + m) / 3 = 70, so m = 90; leaving the fail out would need only 50
+    expect(solution.requiredMarks).toEqual({ CSIT114: 90 });
+    expect(solution.explanation).toContain('Your current WAM counts 12 graded credits, fails included.');
+  });
+});
@@ -0,0 +1,100 @@
+// Target WAM solver
+// Works out the lowest mark each upcoming subject needs for the cumulative WAM
+// to reach a target. Subjects with an expected mark are fixed; the rest share
+// the remaining weighted marks as evenly as their caps allow, so no subject is
+// asked for more than it has to.
+
+import { getWAMTotals, type Subject } from './academic-engine';
+
+export interface SolverSubject {
+  id: string;
+  creditPoints: number;
+  // Mark the student expects or already knows; null to solve for it
+  fixedMark: number | null;
+  // Highest mark the student thinks is realistic; 100 when not set
+  maxMark: number;
+}
+
+export type TargetWAMStatus = 'feasible' | 'already-met' | 'infeasible';
+
+export interface TargetWAMSolution {
+  status: TargetWAMStatus;
+  // Minimum mark for each subject without a fixed mark, keyed by subject id
+  requiredMarks: Record<string, number>;
+  // Highest cumulative WAM reachable with fixed marks and every other subject at its cap
+  maxAchievableWAM: number;
+  explanation: string;
+}
+
+// Required marks are rounded up so meeting them always reaches the target
+const roundUp = (mark: number) => Math.ceil(mark * 100 - 1e-9) / 100;
+
+// The common mark m with sum(cp × min(m, cap)) = weightedMarks
+function levelMarks(subjects: SolverSubject[], weightedMarks: number): number {
+  const byCap = [...subjects].sort((a, b) => a.maxMark - b.maxMark);
+  let remaining = weightedMarks;
+  let openCredits = byCap.reduce((sum, subject) => sum + subject.creditPoints, 0);
+
+  for (const subject of byCap) {
+    const level = remaining / openCredits;
+    if (level <= subject.maxMark) return level;
+    // This subject is held at its cap; the others make up the difference
+    remaining -= subject.creditPoints * subject.maxMark;
+    openCredits -= subject.creditPoints;
+  }
+  return byCap[byCap.length - 1]?.maxMark ?? 0;
+}
+
+// `completed` are the subjects already counted in the cumulative WAM
+export function solveTargetWAM(completed: Subject[], upcoming: SolverSubject[], target: number): TargetWAMSolution {
+  const current = getWAMTotals(completed);
+  const fixed = upcoming.filter((subject) => subject.fixedMark !== null);
+  const free = upcoming.filter((subject) => subject.fixedMark === null);
+
+  const totalCredits = current.credits + upcoming.reduce((sum, subject) => sum + subject.creditPoints, 0);
+  const fixedWeightedMarks = fixed.reduce((sum, subject) => sum + subject.creditPoints * subject.fixedMark!, 0);
+  const freeCredits = free.reduce((sum, subject) => sum + subject.creditPoints, 0);
+  const capWeightedMarks = free.reduce((sum, subject) => sum + subject.creditPoints * subject.maxMark, 0);
+
+  const needed = target * totalCredits - current.weightedMarks - fixedWeightedMarks;
+  const maxAchievableWAM =
+    totalCredits > 0 ? (current.weightedMarks + fixedWeightedMarks + capWeightedMarks) / totalCredits : 0;
+
+  if (needed <= 0) {
+    return {
+      status: 'already-met',
+      requiredMarks: Object.fromEntries(free.map((subject) => [subject.id, 0])),
+      maxAchievableWAM,
+      explanation:
+        free.length > 0
+          ? `Your completed subjects${fixed.length > 0 ? ' and expected marks' : ''} already reach a WAM of ${target}, whatever you score in the rest.`
+          : `Your completed subjects and expected marks reach a WAM of ${target}.`,
+    };
+  }
+
+  if (needed > capWeightedMarks + 1e-9) {
+    return {
+      status: 'infeasible',
+      requiredMarks: {},
+      maxAchievableWAM,
+      explanation:
+        free.length === 0
+          ? `With the expected marks entered, your WAM would be ${maxAchievableWAM.toFixed(2)}, below the target of ${target}.`
+          : `Even at ${free.some((subject) => subject.maxMark < 100) ? 'their caps' : '100'} in every open subject, the highest WAM you can reach is ${maxAchievableWAM.toFixed(2)}, so ${target} is out of reach${target < 100 ? ` without about ${Math.ceil((needed - capWeightedMarks) / (100 - target))} more credits at full marks` : ''}.`,
+    };
+  }
+
+  const level = levelMarks(free, needed);
+  const requiredMarks = Object.fromEntries(free.map((subject) => [subject.id, roundUp(Math.min(level, subject.maxMark))]));
+  const cappedCount = free.filter((subject) => subject.maxMark < level).length;
+
+  return {
+    status: 'feasible',
+    requiredMarks,
+    maxAchievableWAM,
+    explanation:
+      `To reach a WAM of ${target} you need ${(needed / freeCredits).toFixed(2)} on average across ${freeCredits} open credits` +
+      (cappedCount > 0 ? `; ${cappedCount} subject${cappedCount === 1 ? ' is' : 's are'} held at ${cappedCount === 1 ? 'its cap' : 'their caps'}, so the others need ${roundUp(level)}` : '') +
+      `. Your current WAM counts ${current.credits} graded credits, fails included.`,
+  };
+}